@@ -1,15 +1,87 @@
 import { EventEmitter } from "events";
 import axios, { AxiosResponse } from "axios";
-import * as fs from "fs";
 import * as path from "path";
+import * as crypto from "crypto";
+import * as os from "os";
+import {
+    WebhookServer,
+    WebhookHeaders,
+    WebhookResult,
+    MEMBER_WEBHOOK_TRIGGERS,
+    verifyWebhookSignature,
+    getHeader
+} from "./src/webhook";
+import { RoleSync, RoleSyncOptions, RoleSyncReport } from "./src/roles";
+import { DiscordNotifier, NotifierOptions } from "./src/notifier";
+import { LinkServer, LinkingOptions, AccountLink } from "./src/linking";
+import { LeaderLock, FileLeaderLock } from "./src/leader";
+import { MilestoneOptions, Milestone, milestoneKey, reachedMilestones } from "./src/milestones";
+import { PrivacyOptions, applyPrivacy, normalizeEmail } from "./src/privacy";
+import { CacheStore, JsonFileCacheStore } from "./src/cache";
+import { TokenSet, OAuthClientOptions, TOKEN_REFRESH_MARGIN, requestTokenRefresh } from "./src/auth";
+import { RetryOptions, DEFAULT_RETRY, withRetry, RateLimiter } from "./src/http";
+import { Scheduler } from "./src/scheduler";
+import { MemberFilter, MemberStats, matchesFilter, computeStats } from "./src/query";
+import { EventJournal, JournalEntry, JournalQuery, MemberState, JsonlJournal } from "./src/journal";
+import { Outbox, OutboxEntry, DeliveryFailure } from "./src/delivery";
+import { ManualGrant, GrantOptions, grantMemberId, grantToMember } from "./src/grants";
+import { Logger, LogLevel, createLogger, consoleLogger, redactString } from "./src/logger";
+import { MetricsServer, WatcherStatus } from "./src/metrics";
 
 // Interface for the Patreon options
 interface PatreonOptions {
-    accessToken: string;
+    accessToken?: string; // Creator access token (optional when refreshToken is set)
     campaignId: string;
+    clientId?: string; // OAuth client ID, required for token refresh
+    clientSecret?: string; // OAuth client secret, required for token refresh
+    refreshToken?: string; // Refresh token used to renew the access token
+    accessTokenExpiresAt?: number; // Known access token expiry timestamp (ms), refreshed ahead of time
+    onTokenRefresh?: (tokens: TokenSet) => void | Promise<void>; // Persist rotated tokens yourself
+    apiBaseUrl?: string; // Patreon API base URL (default: https://www.patreon.com/api/oauth2/v2)
+    tokenUrl?: string; // Patreon OAuth token endpoint (default: https://www.patreon.com/api/oauth2/token)
+    requestTimeout?: number; // Timeout for a single API request (default: 30 seconds)
+    cycleTimeout?: number; // Timeout for fetching the whole roster, retries included (default: 5 minutes)
+    retry?: RetryOptions; // Retry policy for 429, 5xx and network failures
+    rateLimiter?: RateLimiter; // Request budget shared with other instances, e.g. by a CampaignManager
+    declineGracePeriod?: number; // Keep declined patrons entitled this long before 'graceExpired' (default: disabled)
+    scheduleExpiry?: boolean; // Keep canceled patrons entitled until their paid-through date, then emit 'expired' (default: false)
+    expiryWarnings?: number[]; // Lead times (ms) before expiry to emit 'expiringSoon' (default: [3 days])
+    milestones?: MilestoneOptions; // Emit 'milestone' for months of support and lifetime amounts (default: disabled)
+    journal?: EventJournal | string; // Record every membership event; a string is the path of a JSONL file
+    delivery?: RetryOptions; // Retry policy for handlers registered with handle() (default: 5 retries, 1s to 5 minutes)
+    initialSync?: 'silent' | 'emit' | 'diff-from-cache'; // How the first check after startup announces members (default: silent)
     checkInterval?: number; // How often to check for updates (default: 60000ms)
+    adaptivePolling?: boolean | AdaptivePollingOptions; // Poll faster after changes and slower when idle (default: disabled)
     cacheFile?: string; // Path to a custom cache file
+    cacheStore?: CacheStore; // Custom cache storage backend (takes precedence over cacheFile)
     cacheSaveInterval?: number; // Optional interval for saving cache (default: 5 minutes)
+    mode?: 'poll' | 'webhook' | 'hybrid'; // How changes are detected (default: poll)
+    reconcileInterval?: number; // Safety-net poll interval in hybrid mode (default: 15 minutes)
+    webhookSecret?: string; // Secret used to verify X-Patreon-Signature
+    webhookPort?: number; // Start a built-in webhook server on this port
+    webhookHost?: string; // Interface for the built-in webhook server
+    webhookPath?: string; // Route for the built-in webhook server (default: /patreon/webhook)
+    roleSync?: RoleSyncOptions; // Keep Discord roles in sync with memberships
+    notifier?: NotifierOptions; // Post membership events to Discord webhooks
+    linking?: LinkingOptions; // Let patrons link their Discord account through "Log in with Patreon" and "Log in with Discord"
+    anomalyThreshold?: number; // Hold a cycle when more than this % of known members vanish or change status (default: disabled)
+    anomalyMinChanges?: number; // Never treat fewer affected members than this as an anomaly (default: 5)
+    privacy?: PrivacyOptions; // Omit or hash personal data and forget former patrons after a while (default: keep everything)
+    logger?: Logger; // Receives log lines with structured context; tokens and emails are redacted
+    logLevel?: LogLevel; // Minimum level to log (default: 'info' with a logger, otherwise 'silent')
+    leaderLock?: LeaderLock | string; // Only the replica holding this lock polls and emits; a string is the path of a lock file
+    leaderLockTtl?: number; // How long leadership lasts without renewal (default: 30 seconds)
+    instanceId?: string; // Identifies this replica to the leader lock (default: hostname, process ID and a random suffix)
+    metricsPort?: number; // Serve /metrics (Prometheus) and /healthz on this port
+    metricsHost?: string; // Interface for the metrics server
+    healthMaxAge?: number; // Report unhealthy when the last successful check is older than this (default: 3 poll intervals)
+}
+
+// Bounds for adaptive polling
+interface AdaptivePollingOptions {
+    minInterval?: number; // Interval after a check with changes (default: the regular poll interval)
+    maxInterval?: number; // Longest interval when idle (default: 10 times minInterval)
+    backoff?: number; // Factor the interval grows by after each idle check (default: 2)
 }
 
 // Enhanced cache data structure to track all event types
@@ -17,15 +89,34 @@ interface CacheData {
     lastUpdated: number;
     memberships: Record<string, string>; // id -> status
     discordIds: Record<string, string | null>; // id -> discordId
+    tiers?: Record<string, TierData[]>; // id -> entitled tiers snapshot
+    members?: Record<string, MembershipData>; // id -> full membership data, for lookups at startup
+    outbox?: OutboxEntry[]; // Events not yet acknowledged by every durable handler
+    grants?: Record<string, ManualGrant>; // discordId -> manual grant for a non-Patreon supporter
+    links?: Record<string, AccountLink>; // Patreon user ID -> Discord account linked through the OAuth flow
+    tokens?: TokenSet & { seed: string }; // Rotated tokens, with a hash of the configured refresh token they descend from
+    campaigns?: Record<string, CacheData>; // campaignId -> cache of each campaign in a store shared by a CampaignManager
     // Event tracking to prevent duplicate events
     subscribedMembers: string[]; // ids of members who have had 'subscribed' event
     canceledMembers: Record<string, number>; // id -> timestamp of cancellation
     declinedMembers: Record<string, number>; // id -> timestamp of decline
+    gracePeriods?: Record<string, number>; // id -> timestamp when the decline grace period ends
+    paidThrough?: Record<string, number>; // id -> last known paid-through timestamp (next charge date)
+    expiries?: Record<string, { expiresAt: number; warned: number[] }>; // id -> scheduled expiry of a canceled patron
+    milestones?: Record<string, string[]>; // id -> milestones already reached, e.g. "months:12"
+    formerSince?: Record<string, number>; // id -> when the member was first seen as a former patron, for the retention policy
     reactivatedMembers: Record<string, number>; // id -> timestamp of reactivation 
     connectedDiscords: Record<string, string>; // id -> discordId of connection
     disconnectedDiscords: Record<string, string>; // id -> discordId of disconnection
 }
 
+// Tier Interface
+interface TierData {
+    id: string;
+    title?: string;
+    amount?: number; // Amount in dollars
+}
+
 // Membership Interface
 interface MembershipData {
     id: string;
@@ -33,11 +124,61 @@ interface MembershipData {
     fullName?: string;
     email?: string;
     patronStatus?: string;
-    pledgeAmount?: number;
+    pledgeAmount?: number; // Amount of the highest entitled tier
+    tiers?: TierData[]; // All currently entitled tiers
     discordId: string | null;
     joinedAt?: string;
     expiresAt?: string;
+    lifetimeSupport?: number; // Lifetime support to the campaign in dollars
+    gracePeriodEndsAt?: string; // Set while a declined patron is still entitled
+    entitledUntil?: string; // Set while a canceled patron is still paid through
     relationships?: any;
+    patreonUserId?: string; // Patreon user behind the membership, kept even when relationships are omitted
+    source?: string; // Where the membership comes from when not from Patreon ('manual'), or 'oauth-link' when the Discord ID does
+    note?: string; // Note attached to a manual grant
+    campaignId?: string; // Campaign the membership belongs to
+}
+
+// Payload for tier change events
+interface TierChangeData extends MembershipData {
+    previousTiers: TierData[];
+    currentTiers: TierData[];
+}
+
+// Payload for milestone events
+interface MilestoneData extends MembershipData {
+    milestone: Milestone;
+}
+
+// Pending diff held back by the anomaly guard
+interface AnomalyReport {
+    removed: string[]; // Member IDs missing from the roster
+    statusChanged: { id: string; from: string; to: string }[];
+    knownMembers: number; // Members in the cache before this cycle
+    percentage: number; // Share of known members affected
+    detectedAt: number;
+}
+
+// Campaign visible to the access token
+interface CampaignData {
+    id: string;
+    name?: string; // Creation name shown on the campaign page
+    url?: string;
+    vanity?: string;
+    patronCount?: number;
+}
+
+// The Patreon user the access token belongs to
+interface IdentityData {
+    id: string;
+    fullName?: string;
+}
+
+// The full roster after a successful check
+interface RosterSnapshot {
+    cycleId: string;
+    takenAt: number;
+    members: MembershipData[];
 }
 
 // Event types for better type safety
@@ -49,6 +190,21 @@ interface PatreonEventMap {
     reactivated: (data: MembershipData) => void;
     disconnected: (data: MembershipData) => void;
     expired: (data: MembershipData) => void; // New event for expired subscriptions
+    tierChanged: (data: TierChangeData) => void;
+    upgraded: (data: TierChangeData) => void;
+    downgraded: (data: TierChangeData) => void;
+    gracePeriodStarted: (data: MembershipData) => void;
+    graceExpired: (data: MembershipData) => void; // Still declined when the grace period ended
+    recovered: (data: MembershipData) => void; // Payment recovered during the grace period
+    expiringSoon: (data: MembershipData) => void; // A canceled patron's paid-through date is approaching
+    milestone: (data: MilestoneData) => void; // An active patron reached a configured milestone
+    anomalyDetected: (report: AnomalyReport) => void; // Changes held until confirmed or seen again
+    deliveryFailed: (failure: DeliveryFailure) => void; // A durable handler failed after every retry
+    snapshot: (snapshot: RosterSnapshot) => void; // Full roster after every successful check
+    tokenRefreshed: (tokens: TokenSet) => void;
+    authFailed: (error: Error) => void; // Token refresh itself failed
+    leadershipAcquired: () => void; // This replica took the leader lock and started monitoring
+    leadershipLost: () => void; // Another replica took over, or the lock could not be renewed
     error: (error: Error) => void;
     ready: () => void; // New event for initialization completion
 }
@@ -68,49 +224,291 @@ interface PatreonApiResponse {
  * Works with both ESM and CommonJS
  */
 class PatreonEvents extends EventEmitter {
-    private accessToken: string;
+    private tokens: TokenSet;
+    private tokenSeed: string | null;
+    private oauthClient: OAuthClientOptions | null;
+    private logger: Logger;
+    private onTokenRefresh: ((tokens: TokenSet) => void | Promise<void>) | null;
+    private refreshing: Promise<void> | null = null;
+    private anomalyThreshold: number | null;
+    private anomalyMinChanges: number;
+    private apiBaseUrl: string;
+    private requestTimeout: number;
+    private cycleTimeout: number;
+    private retryPolicy: Required<RetryOptions>;
+    private rateLimiter: RateLimiter | null;
+    private declineGracePeriod: number;
+    private scheduleExpiry: boolean;
+    private expiryWarnings: number[];
+    private milestoneOptions: MilestoneOptions | null;
+    private privacy: PrivacyOptions;
+    private pendingAnomaly: { report: AnomalyReport; memberships: MembershipData[]; key: string } | null = null;
     private lastMemberships: Map<string, string>; // Status tracking
     private lastDiscordIds: Map<string, string | null>; // Discord ID tracking
+    private lastTiers: Map<string, TierData[]> = new Map(); // Entitled tier tracking
     private campaignId: string;
     private intervalId: NodeJS.Timeout | null = null;
     private cacheSaveIntervalId: NodeJS.Timeout | null = null;
     private isFirstRun: boolean = true; // Add flag to track first run
+    private initialSync: 'silent' | 'emit' | 'diff-from-cache';
+    private lastSnapshot: RosterSnapshot | null = null;
     private cacheSaveInterval: number;
-    private cacheFile: string;
+    private cacheStore: CacheStore;
+    private cacheLoaded: Promise<void>;
+    private pendingSave: Promise<void> = Promise.resolve();
+    private journal: EventJournal | null;
+    private pendingJournal: Promise<void> = Promise.resolve();
+    private outbox: Outbox;
+    private delivering: Promise<void> | null = null;
+    private deliverAgain: boolean = false;
+    private stopped: boolean = false;
+    // Checks and webhook deliveries apply their changes one at a time, in this queue
+    private changeQueue: Promise<void> = Promise.resolve();
+    private webhookUpdates: Map<string, number> = new Map(); // id -> when a webhook last changed the member
+    private runningChecks: number[] = []; // Start times of the checks still fetching or applying
+    // The check, webhook delivery or timer currently producing events,
+    // with member states from before it and the events it emitted
+    private cycle: { id: string; previous: Map<string, MemberState>; emitted: Set<string> } = 
+        { id: crypto.randomUUID(), previous: new Map(), emitted: new Set() };
     private checkInterval: number;
+    private mode: 'poll' | 'webhook' | 'hybrid';
+    private reconcileInterval: number;
+    private webhookSecret: string | null;
+    private webhookServer: WebhookServer | null = null;
+    private metricsServer: MetricsServer | null = null;
+    private healthMaxAge: number;
+    private adaptivePolling: Required<AdaptivePollingOptions> | null = null;
+    private pollInterval: number = 0; // Current adaptive poll interval
+    private lastCycleChanged: boolean = false;
+    private leaderLock: LeaderLock | null;
+    private leaderLockTtl: number;
+    private instanceId: string;
+    private leading: boolean = false;
+    private followed: boolean = false; // Followed another leader since startup, so a takeover continues from the cache
+    private electionTimer: NodeJS.Timeout | null = null;
+    private announcedReady: boolean = false;
+    // Check outcomes and emitted events, reported by getStatus()
+    private health = {
+        startedAt: null as number | null,
+        lastSuccessAt: null as number | null,
+        lastFailureAt: null as number | null,
+        lastError: null as string | null,
+        consecutiveFailures: 0,
+        lastCycleDuration: null as number | null,
+        lastPageCount: null as number | null,
+        eventsEmitted: {} as Record<string, number>
+    };
 
     // Event tracking sets and maps
     private subscribedMembers: Set<string> = new Set();
     private canceledMembers: Map<string, number> = new Map();
     private declinedMembers: Map<string, number> = new Map();
+    private gracePeriods: Map<string, number> = new Map(); // id -> grace period end
+    private paidThrough: Map<string, number> = new Map(); // id -> paid-through timestamp
+    private expiries: Map<string, { expiresAt: number; warned: number[] }> = new Map();
+    private milestonesReached: Map<string, Set<string>> = new Map(); // id -> milestone keys
+    private formerSince: Map<string, number> = new Map(); // id -> first seen as a former patron
+    private scheduler: Scheduler = new Scheduler();
     private reactivatedMembers: Map<string, number> = new Map();
     private connectedDiscords: Map<string, string> = new Map();
     private disconnectedDiscords: Map<string, string> = new Map();
     
-    // User lookup by Discord ID
+    // Full membership data by Patreon member ID, with lookup indexes built from it
+    private members: Map<string, MembershipData> = new Map();
     private discordToMemberMap: Map<string, MembershipData> = new Map();
+    private emailToMemberMap: Map<string, MembershipData> = new Map();
+    
+    // Manual grants by Discord ID
+    private manualGrants: Map<string, ManualGrant> = new Map();
+    
+    // Discord accounts linked through the OAuth flow, by Patreon user ID
+    private accountLinks: Map<string, AccountLink> = new Map();
+    
+    // Discord role synchronization, when configured
+    public roles: RoleSync | null = null;
+    
+    // Discord webhook notifications, when configured
+    public notifier: DiscordNotifier | null = null;
+    
+    // Account linking routes, when configured
+    public linking: LinkServer | null = null;
     
     // Public interface for user access
     public users = {
         get: (discordId: string): MembershipData | null => {
-            return this.getByDiscordId(discordId);
+            // An active Patreon membership wins over a manual grant for the same account
+            const member = this.getByDiscordId(discordId);
+            if (member && member.status === 'active_patron') {
+                return member;
+            }
+            return this.grants.get(discordId) || member;
+        },
+        getAll: (discordId: string): MembershipData[] => {
+            // Every membership backing the account: the Patreon membership and any manual grant
+            return [this.getByDiscordId(discordId), this.grants.get(discordId)]
+                .filter((member): member is MembershipData => member !== null);
+        },
+        getByPatreonId: (memberId: string): MembershipData | null => {
+            return this.members.get(memberId.trim()) || null;
+        },
+        getByEmail: (email: string): MembershipData | null => {
+            return this.emailToMemberMap.get(normalizeEmail(email, this.privacy)) || null;
+        },
+        list: (filter: MemberFilter = {}): MembershipData[] => {
+            return Array.from(this.members.values()).filter(member => matchesFilter(member, filter));
+        },
+        count: (filter: MemberFilter = {}): number => {
+            return this.users.list(filter).length;
+        },
+        stats: (): MemberStats => {
+            return computeStats(this.members.values());
+        }
+    };
+    
+    // Public interface for manual grants to supporters outside Patreon
+    public grants = {
+        grant: (discordId: string, options: GrantOptions = {}): Promise<MembershipData> => {
+            return this.grantMembership(discordId.trim(), options);
+        },
+        revoke: (discordId: string): Promise<boolean> => {
+            return this.revokeMembership(discordId.trim());
+        },
+        get: (discordId: string): MembershipData | null => {
+            const grant = this.manualGrants.get(discordId.trim());
+            return grant ? grantToMember(grant) : null;
+        },
+        list: (): MembershipData[] => {
+            return Array.from(this.manualGrants.values()).map(grant => grantToMember(grant));
+        }
+    };
+    
+    // Public interface for Discord accounts linked through the OAuth flow
+    public links = {
+        link: (patreonUserId: string, discordId: string): Promise<AccountLink> => {
+            return this.linkAccount(patreonUserId.trim(), discordId.trim());
+        },
+        unlink: (patreonUserIdOrDiscordId: string): Promise<boolean> => {
+            return this.unlinkAccount(patreonUserIdOrDiscordId.trim());
+        },
+        get: (patreonUserIdOrDiscordId: string): AccountLink | null => {
+            return this.findLink(patreonUserIdOrDiscordId.trim());
+        },
+        list: (): AccountLink[] => {
+            return Array.from(this.accountLinks.values());
         }
     };
     
     constructor(options: PatreonOptions) {
         super();
-        this.accessToken = options.accessToken;
+        if (!options.accessToken && !options.refreshToken) {
+            throw new Error("Either accessToken or refreshToken is required");
+        }
+        this.tokens = {
+            accessToken: options.accessToken || '',
+            refreshToken: options.refreshToken,
+            expiresAt: options.accessTokenExpiresAt
+        };
+        // Without a logger the library stays silent; a logLevel alone logs to the console
+        this.logger = createLogger(options.logger || consoleLogger, options.logLevel || (options.logger ? 'info' : 'silent'),
+            () => this.secretValues());
+        this.tokenSeed = options.refreshToken ? 
+            crypto.createHash('sha256').update(options.refreshToken).digest('hex') : null;
+        this.oauthClient = options.clientId && options.clientSecret ? 
+            { clientId: options.clientId, clientSecret: options.clientSecret, tokenUrl: options.tokenUrl } : null;
+        this.onTokenRefresh = options.onTokenRefresh || null;
+        this.anomalyThreshold = options.anomalyThreshold ?? null;
+        this.anomalyMinChanges = options.anomalyMinChanges ?? 5;
+        this.apiBaseUrl = (options.apiBaseUrl || 'https://www.patreon.com/api/oauth2/v2').replace(/\/+$/, '');
+        this.requestTimeout = options.requestTimeout || 30000; // Default to 30 seconds
+        this.cycleTimeout = options.cycleTimeout || 300000; // Default to 5 minutes
+        this.retryPolicy = { ...DEFAULT_RETRY, ...options.retry };
+        this.rateLimiter = options.rateLimiter || null;
+        this.declineGracePeriod = options.declineGracePeriod || 0;
+        this.scheduleExpiry = options.scheduleExpiry || false;
+        this.expiryWarnings = options.expiryWarnings || [259200000]; // Default to 3 days
+        this.milestoneOptions = options.milestones || null;
+        this.privacy = options.privacy || {};
+        if (this.privacy.hash?.length && !this.privacy.hashSecret) {
+            throw new Error("privacy.hashSecret is required when privacy.hash is set");
+        }
+        this.journal = typeof options.journal === 'string' ? 
+            new JsonlJournal(options.journal) : options.journal || null;
+        this.outbox = new Outbox({ retries: 5, minDelay: 1000, maxDelay: 300000, ...options.delivery },
+            (failure) => this.emit('deliveryFailed', failure));
         this.campaignId = options.campaignId;
         this.checkInterval = options.checkInterval || 60000; // Default to checking every minute
         this.cacheSaveInterval = options.cacheSaveInterval || 300000; // Default to 5 minutes
-        this.cacheFile = options.cacheFile ? 
+        this.initialSync = options.initialSync || 'silent';
+        this.cacheStore = options.cacheStore || new JsonFileCacheStore(options.cacheFile ? 
             path.resolve(options.cacheFile) : 
-            path.resolve(__dirname, "data.json"); // Use custom path or default
+            path.resolve(__dirname, "data.json")); // Use custom store, custom path or default
+        this.mode = options.mode || 'poll';
+        this.reconcileInterval = options.reconcileInterval || 900000; // Default to 15 minutes
+        this.webhookSecret = options.webhookSecret || null;
+        if (options.adaptivePolling) {
+            const settings = options.adaptivePolling === true ? {} : options.adaptivePolling;
+            const minInterval = settings.minInterval || (this.mode === 'hybrid' ? this.reconcileInterval : this.checkInterval);
+            this.adaptivePolling = {
+                minInterval,
+                maxInterval: Math.max(minInterval, settings.maxInterval || 10 * minInterval),
+                backoff: settings.backoff || 2
+            };
+        }
+        // Webhook mode only checks once at startup, so the age of that check says nothing
+        const longestInterval = this.adaptivePolling ? this.adaptivePolling.maxInterval :
+            this.mode === 'hybrid' ? this.reconcileInterval : this.checkInterval;
+        this.healthMaxAge = options.healthMaxAge ?? (this.mode === 'webhook' ? Infinity : 3 * longestInterval);
+        this.leaderLock = typeof options.leaderLock === 'string' ? 
+            new FileLeaderLock(options.leaderLock) : options.leaderLock || null;
+        this.leaderLockTtl = options.leaderLockTtl || 30000; // Default to 30 seconds
+        this.instanceId = options.instanceId || `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
         this.lastMemberships = new Map();
         this.lastDiscordIds = new Map(); // Track Discord IDs separately
+
+        if (options.webhookPort !== undefined) {
+            if (!this.webhookSecret) {
+                throw new Error("webhookSecret is required when webhookPort is set");
+            }
+            this.webhookServer = new WebhookServer({
+                port: options.webhookPort,
+                host: options.webhookHost,
+                path: options.webhookPath || '/patreon/webhook'
+            }, (rawBody, headers) => this.handleWebhook(rawBody, headers));
+        }
+        
+        if (options.linking) {
+            this.linking = new LinkServer(options.linking, async (patreonUserId, discordId) => {
+                await this.linkAccount(patreonUserId, discordId);
+            }, this.logger);
+        }
+        
+        if (options.metricsPort !== undefined) {
+            this.metricsServer = new MetricsServer({ port: options.metricsPort, host: options.metricsHost }, () => this.getStatus());
+        }
         
-        // Load cache from the configured file
-        this.loadCache();
+        // Load cache from the configured store; checks wait for this to finish
+        this.cacheLoaded = this.loadCache();
+
+        if (options.roleSync) {
+            this.roles = new RoleSync(options.roleSync, this.logger);
+        }
+
+        if (options.notifier) {
+            this.notifier = new DiscordNotifier(options.notifier, this.logger);
+        }
+        this.attachSubsystems();
+    }
+
+    /**
+     * Let role sync and notifications listen for membership events
+     */
+    private attachSubsystems(): void {
+        if (this.roles) {
+            this.roles.attach(this);
+        }
+        if (this.notifier) {
+            this.notifier.attach(this);
+        }
     }
 
     // Type-safe event emitter methods
@@ -131,91 +529,189 @@ class PatreonEvents extends EventEmitter {
     }
 
     /**
-     * Load cache data from the hardcoded file
+     * Load cache data from the configured store
      */
-    private loadCache(): void {
+    private async loadCache(): Promise<void> {
         try {
-            // Check if cache file exists
-            if (fs.existsSync(this.cacheFile)) {
-                const cacheData = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as CacheData;
-                
-                // Load membership statuses
-                if (cacheData.memberships) {
-                    this.lastMemberships = new Map(Object.entries(cacheData.memberships));
-                }
-                
-                // Load Discord IDs
-                if (cacheData.discordIds) {
-                    this.lastDiscordIds = new Map(Object.entries(cacheData.discordIds));
-                }
-                
-                // Load event tracking data
-                if (cacheData.subscribedMembers) {
-                    this.subscribedMembers = new Set(cacheData.subscribedMembers);
-                }
-                
-                if (cacheData.canceledMembers) {
-                    this.canceledMembers = new Map(Object.entries(cacheData.canceledMembers)
-                        .map(([key, value]) => [key, Number(value)]));
-                }
-                
-                if (cacheData.declinedMembers) {
-                    this.declinedMembers = new Map(Object.entries(cacheData.declinedMembers)
-                        .map(([key, value]) => [key, Number(value)]));
-                }
-                
-                if (cacheData.reactivatedMembers) {
-                    this.reactivatedMembers = new Map(Object.entries(cacheData.reactivatedMembers)
-                        .map(([key, value]) => [key, Number(value)]));
-                }
-                
-                if (cacheData.connectedDiscords) {
-                    this.connectedDiscords = new Map(Object.entries(cacheData.connectedDiscords));
-                }
-                
-                if (cacheData.disconnectedDiscords) {
-                    this.disconnectedDiscords = new Map(Object.entries(cacheData.disconnectedDiscords));
-                }
-                
-                console.log(`Loaded cache from ${this.cacheFile}, with ${this.lastMemberships.size} memberships`);
+            const cacheData = await this.cacheStore.load();
+            if (cacheData) {
+                this.applyCache(cacheData);
+                this.logger.info("Loaded cache", { memberships: this.lastMemberships.size });
             }
         } catch (error) {
-            console.warn(`Failed to load cache file: ${error}`);
+            this.logger.warn("Failed to load cache", { error });
             // Continue without cache, it will be created on next save
         }
     }
+
+    /**
+     * Replace the in-memory state with cached data
+     */
+    private applyCache(cacheData: CacheData): void {
+        // Load membership statuses
+        if (cacheData.memberships) {
+            this.lastMemberships = new Map(Object.entries(cacheData.memberships));
+        }
+        
+        // Load Discord IDs
+        if (cacheData.discordIds) {
+            this.lastDiscordIds = new Map(Object.entries(cacheData.discordIds));
+        }
+        
+        // Load entitled tier snapshots
+        if (cacheData.tiers) {
+            this.lastTiers = new Map(Object.entries(cacheData.tiers));
+        }
+        
+        // Load events still waiting for durable handlers
+        if (cacheData.outbox) {
+            this.outbox.load(cacheData.outbox);
+        }
+        
+        // Load manual grants
+        if (cacheData.grants) {
+            this.manualGrants = new Map(Object.entries(cacheData.grants));
+        }
+        
+        if (cacheData.links) {
+            this.accountLinks = new Map(Object.entries(cacheData.links));
+        }
+        
+        // Load full membership data so lookups work before the first check
+        if (cacheData.members) {
+            // Members cached before memberships were tagged with their campaign and Patreon user,
+            // or before the privacy settings changed, are brought up to date
+            this.members = new Map(Object.entries(cacheData.members).map(([id, member]) => [id, applyPrivacy({
+                ...member,
+                campaignId: member.campaignId || this.campaignId,
+                patreonUserId: member.patreonUserId ?? member.relationships?.user?.data?.id
+            }, this.privacy)]));
+            this.rebuildIndexes();
+        }
+        
+        // Load rotated tokens, unless the configured refresh token has since been replaced
+        if (cacheData.tokens && cacheData.tokens.seed === this.tokenSeed) {
+            const { seed, ...tokens } = cacheData.tokens;
+            this.tokens = tokens;
+        }
+        
+        if (cacheData.milestones) {
+            this.milestonesReached = new Map(Object.entries(cacheData.milestones)
+                .map(([key, value]) => [key, new Set(value)]));
+        }
+        
+        if (cacheData.formerSince) {
+            this.formerSince = new Map(Object.entries(cacheData.formerSince)
+                .map(([key, value]) => [key, Number(value)]));
+        }
+        
+        // Load event tracking data
+        if (cacheData.subscribedMembers) {
+            this.subscribedMembers = new Set(cacheData.subscribedMembers);
+        }
+        
+        if (cacheData.canceledMembers) {
+            this.canceledMembers = new Map(Object.entries(cacheData.canceledMembers)
+                .map(([key, value]) => [key, Number(value)]));
+        }
+        
+        if (cacheData.declinedMembers) {
+            this.declinedMembers = new Map(Object.entries(cacheData.declinedMembers)
+                .map(([key, value]) => [key, Number(value)]));
+        }
+        
+        if (cacheData.gracePeriods) {
+            this.gracePeriods = new Map(Object.entries(cacheData.gracePeriods)
+                .map(([key, value]) => [key, Number(value)]));
+        }
+        
+        if (cacheData.paidThrough) {
+            this.paidThrough = new Map(Object.entries(cacheData.paidThrough)
+                .map(([key, value]) => [key, Number(value)]));
+        }
+        
+        if (cacheData.expiries) {
+            this.expiries = new Map(Object.entries(cacheData.expiries));
+        }
+        
+        if (cacheData.reactivatedMembers) {
+            this.reactivatedMembers = new Map(Object.entries(cacheData.reactivatedMembers)
+                .map(([key, value]) => [key, Number(value)]));
+        }
+        
+        if (cacheData.connectedDiscords) {
+            this.connectedDiscords = new Map(Object.entries(cacheData.connectedDiscords));
+        }
+        
+        if (cacheData.disconnectedDiscords) {
+            this.disconnectedDiscords = new Map(Object.entries(cacheData.disconnectedDiscords));
+        }
+    }
     
     /**
-     * Save current state to the hardcoded cache file
+     * Save current state to the configured store
+     * Saves are queued so writes never overlap; failures are logged, never thrown
      */
-    private saveCache(): void {
+    private saveCache(): Promise<void> {
+        this.pendingSave = this.pendingSave.then(() => this.writeCache());
+        return this.pendingSave;
+    }
+
+    private async writeCache(): Promise<void> {
         try {
-            // Ensure the directory exists
-            const directory = path.dirname(this.cacheFile);
-            if (!fs.existsSync(directory)) {
-                fs.mkdirSync(directory, { recursive: true });
-            }
-            
             // Convert Maps and Sets to objects/arrays for JSON serialization
             const cacheData: CacheData = {
                 lastUpdated: Date.now(),
                 memberships: Object.fromEntries(this.lastMemberships),
                 discordIds: Object.fromEntries(this.lastDiscordIds),
+                tiers: Object.fromEntries(this.lastTiers),
+                members: Object.fromEntries(this.members),
+                outbox: this.outbox.toJSON(),
+                grants: Object.fromEntries(this.manualGrants),
+                links: Object.fromEntries(this.accountLinks),
+                tokens: this.tokenSeed ? { ...this.tokens, seed: this.tokenSeed } : undefined,
                 subscribedMembers: Array.from(this.subscribedMembers),
                 canceledMembers: Object.fromEntries(this.canceledMembers),
                 declinedMembers: Object.fromEntries(this.declinedMembers),
+                gracePeriods: Object.fromEntries(this.gracePeriods),
+                paidThrough: Object.fromEntries(this.paidThrough),
+                expiries: Object.fromEntries(this.expiries),
+                milestones: Object.fromEntries(Array.from(this.milestonesReached, ([id, keys]) => [id, Array.from(keys)])),
+                formerSince: Object.fromEntries(this.formerSince),
                 reactivatedMembers: Object.fromEntries(this.reactivatedMembers),
                 connectedDiscords: Object.fromEntries(this.connectedDiscords),
                 disconnectedDiscords: Object.fromEntries(this.disconnectedDiscords)
             };
             
-            fs.writeFileSync(this.cacheFile, JSON.stringify(cacheData, null, 2));
+            await this.cacheStore.save(cacheData);
+            
+            // Deliver queued events only once they are safely persisted
+            if (this.outbox.size > 0) {
+                this.scheduleDelivery();
+            }
         } catch (error) {
-            console.error(`Failed to save cache: ${error}`);
+            this.logger.error("Failed to save cache", { error });
         }
     }
   
+    /**
+     * Fetch the complete roster of the campaign
+     * Rejects if any page fails or the roster comes back incomplete, so a partial roster is never diffed
+     */
     async fetchMemberships(): Promise<MembershipData[]> {
+        const memberships: MembershipData[] = [];
+        for await (const page of this.fetchMemberPages()) {
+            memberships.push(...page);
+        }
+        return memberships;
+    }
+
+    /**
+     * Fetch the roster one page at a time, mapping each page as soon as it arrives
+     * Included users and tiers are indexed once across pages. Whether the roster is complete is only
+     * known after the last page, so nothing may be applied before the iteration finishes without throwing
+     */
+    private async *fetchMemberPages(): AsyncIterableIterator<MembershipData[]> {
         try {
             // Patreon API V2 requires specific field formats
             // Use safe default fields that are known to be valid
@@ -225,94 +721,274 @@ class PatreonEvents extends EventEmitter {
                 'email', 
                 'pledge_relationship_start', 
                 'will_pay_amount_cents', 
-                'next_charge_date'  // Add field for expiration date
+                'next_charge_date',  // Add field for expiration date
+                'campaign_lifetime_support_cents',
+                'lifetime_support_cents'
             ];
+            // Personal data the privacy options omit is never requested in the first place
+            const omitted = this.privacy.omit || [];
+            const memberFields = defaultMemberFields.filter(field =>
+                !(field === 'email' && omitted.includes('email')) && !(field === 'full_name' && omitted.includes('fullName')));
             
-            // Initialize array to hold all members and included resources
-            let allMembers: any[] = [];
-            let allIncluded: any[] = [];
-            let nextUrl: string | null = `https://www.patreon.com/api/oauth2/v2/campaigns/${this.campaignId}/members`;
+            const included: Map<string, any> = new Map();
+            let nextUrl: string | null = `${this.apiBaseUrl}/campaigns/${this.campaignId}/members`;
+            let expectedTotal: number | undefined;
+            let received = 0;
+            let pages = 0;
+            const deadline = Date.now() + this.cycleTimeout;
             
             // Loop through all pages
             while (nextUrl) {
-                const apiResponse: AxiosResponse<PatreonApiResponse> = await axios.get(nextUrl, {
-                    headers: {
-                        'Authorization': `Bearer ${this.accessToken}`,
-                        'Accept': 'application/json'
-                    },
-                    params: nextUrl.includes('?') ? undefined : {
+                if (Date.now() >= deadline) {
+                    throw new Error(`Timed out fetching memberships after ${this.cycleTimeout}ms`);
+                }
+                
+                const apiResponse: AxiosResponse<PatreonApiResponse> = await this.apiGet(nextUrl, deadline, 
+                    nextUrl.includes('?') ? undefined : {
                         // Only send params on first request, as pagination URLs include params
                         'include': 'user,currently_entitled_tiers',
-                        'fields[member]': defaultMemberFields.join(','),
+                        'fields[member]': memberFields.join(','),
                         'fields[user]': 'social_connections',
                         'fields[tier]': 'title,amount_cents',
                         'page[count]': 100 // Request maximum number of records per page
-                    }
-                });
+                    });
                    
                 // Extract members from the response
                 if (!apiResponse?.data?.data || !Array.isArray(apiResponse.data.data)) {
-                    console.warn("Unexpected response structure:", apiResponse.data);
-                    return [];
+                    this.logger.warn("Unexpected response structure from the Patreon API", { response: apiResponse.data });
+                    throw new Error("Unexpected response structure from the Patreon API");
                 }
                 
-                // Add members from this page to our collection
-                allMembers = allMembers.concat(apiResponse.data.data);
+                // Index included resources (users, tiers); tiers repeat on every page but are stored once
+                this.indexIncluded(apiResponse.data.included, included);
                 
-                // Add included resources (users, tiers) to our collection
-                if (apiResponse.data.included && Array.isArray(apiResponse.data.included)) {
-                    allIncluded = allIncluded.concat(apiResponse.data.included);
-                }
+                const page = apiResponse.data.data;
+                received += page.length;
+                pages++;
                 
                 // Check for pagination links
                 nextUrl = apiResponse.data.links?.next || null;
+                expectedTotal = apiResponse.data.meta?.pagination?.total ?? expectedTotal;
+                
+                yield page.map((member: any) => this.mapMember(member, included));
             }
             
-            return allMembers.map((member: any) => {
-                // Find the user data from included resources
-                const userData = allIncluded.find((inc: any) => 
-                    inc.type === 'user' && inc.id === member.relationships?.user?.data?.id);
-                
-                // Find tier data if available
-                const tierData = allIncluded.find((inc: any) => 
-                    inc.type === 'tier' && member.relationships?.currently_entitled_tiers?.data?.[0]?.id === inc.id);
-                
-                // Extract Discord ID (prioritized field)
-                const discordId = userData?.attributes?.social_connections?.discord?.user_id || null;
-                
-                return {
-                    id: member.id,
-                    status: member.attributes?.patron_status || 'none',
-                    fullName: member.attributes?.full_name,
-                    email: member.attributes?.email,
-                    patronStatus: member.attributes?.patron_status,
-                    // Always include Discord ID (even if null)
-                    discordId,
-                    // Get pledge amount from tier if available
-                    pledgeAmount: tierData?.attributes?.amount_cents ? 
-                        tierData.attributes.amount_cents / 100 : undefined,
-                    joinedAt: member.attributes?.pledge_relationship_start,
-                    // Include expiration date (next charge date)
-                    expiresAt: member.attributes?.next_charge_date,
-                    // Include the raw relationships for advanced usage
-                    relationships: member.relationships
-                };
+            if (expectedTotal !== undefined && received < expectedTotal) {
+                throw new Error(`Incomplete roster: received ${received} of ${expectedTotal} members`);
+            }
+            this.health.lastPageCount = pages;
+        } catch (error) {
+            // Includes the error body from Patreon, if any
+            this.logger.error("Failed to fetch memberships", { error, campaignId: this.campaignId });
+            
+            throw error instanceof Error ? error : new Error(String(error));
+        }
+    }
+
+    /**
+     * Index included resources by type and ID, skipping ones already indexed
+     */
+    private indexIncluded(resources: any[] | undefined, index: Map<string, any> = new Map()): Map<string, any> {
+        if (Array.isArray(resources)) {
+            for (const resource of resources) {
+                const key = `${resource?.type}:${resource?.id}`;
+                if (!index.has(key)) {
+                    index.set(key, resource);
+                }
+            }
+        }
+        return index;
+    }
+
+    /**
+     * Fetch the campaigns the access token can see (requires the campaigns scope)
+     */
+    async fetchCampaigns(): Promise<CampaignData[]> {
+        const response = await this.apiGet<PatreonApiResponse>(`${this.apiBaseUrl}/campaigns`, Date.now() + this.cycleTimeout, {
+            'fields[campaign]': 'creation_name,url,vanity,patron_count'
+        });
+        return (response.data.data || []).map((campaign: any) => ({
+            id: campaign.id,
+            name: campaign.attributes?.creation_name || undefined,
+            url: campaign.attributes?.url || undefined,
+            vanity: campaign.attributes?.vanity || undefined,
+            patronCount: campaign.attributes?.patron_count
+        }));
+    }
+
+    /**
+     * Fetch the Patreon user the access token belongs to (requires the identity scope)
+     */
+    async fetchIdentity(): Promise<IdentityData> {
+        const response = await this.apiGet<{ data: any }>(`${this.apiBaseUrl}/identity`, Date.now() + this.cycleTimeout, {
+            'fields[user]': 'full_name'
+        });
+        return { id: response.data.data.id, fullName: response.data.data.attributes?.full_name || undefined };
+    }
+
+    /**
+     * GET a Patreon API URL with the current access token
+     * Transient failures are retried with backoff; the token is refreshed ahead of a known expiry,
+     * and once after a 401 before retrying
+     * @param deadline Timestamp (ms) by which the request must be done
+     */
+    private async apiGet<T>(url: string, deadline: number, params?: Record<string, unknown>): Promise<AxiosResponse<T>> {
+        const request = () => withRetry(async () => {
+            if (this.rateLimiter) {
+                await this.rateLimiter.acquire();
+            }
+            return axios.get<T>(url, {
+                headers: {
+                    'Authorization': `Bearer ${await this.getAccessToken()}`,
+                    'Accept': 'application/json'
+                },
+                params,
+                timeout: Math.max(1, Math.min(this.requestTimeout, deadline - Date.now()))
             });
+        }, this.retryPolicy, deadline, (error, attempt, delay) => {
+            const reason = axios.isAxiosError(error) ? (error.response?.status || error.code) : error;
+            this.logger.warn("Patreon request failed, retrying", { reason, delay, attempt, retries: this.retryPolicy.retries });
+        });
+
+        try {
+            return await request();
         } catch (error) {
-            if (axios.isAxiosError(error) && error.response) {
-                // Log the actual error message from Patreon
-                console.error("Patreon API Error Details:", {
-                    status: error.response.status,
-                    statusText: error.response.statusText,
-                    data: JSON.stringify(error.response.data, null, 2)
-                });
-            } else {
-                console.error("Unexpected error:", error);
+            if (!axios.isAxiosError(error) || error.response?.status !== 401 || !this.canRefreshToken()) {
+                throw error;
+            }
+            await this.refreshAccessToken();
+            return request();
+        }
+    }
+
+    /**
+     * Whether the client credentials and a refresh token are available
+     */
+    private canRefreshToken(): boolean {
+        return this.oauthClient !== null && !!this.tokens.refreshToken;
+    }
+
+    /**
+     * Get a usable access token, refreshing it first if it is missing or about to expire
+     */
+    private async getAccessToken(): Promise<string> {
+        await this.cacheLoaded;
+        
+        const expiring = this.tokens.expiresAt !== undefined && 
+            this.tokens.expiresAt - TOKEN_REFRESH_MARGIN <= Date.now();
+        if ((!this.tokens.accessToken || expiring) && this.canRefreshToken()) {
+            await this.refreshAccessToken();
+        }
+        return this.tokens.accessToken;
+    }
+
+    /**
+     * Refresh the access token, sharing one refresh between concurrent callers
+     * Emits 'tokenRefreshed' on success and 'authFailed' when the refresh is rejected
+     */
+    private refreshAccessToken(): Promise<void> {
+        if (!this.refreshing) {
+            this.refreshing = this.performTokenRefresh().finally(() => {
+                this.refreshing = null;
+            });
+        }
+        return this.refreshing;
+    }
+
+    private async performTokenRefresh(): Promise<void> {
+        let tokens: TokenSet;
+        try {
+            tokens = await requestTokenRefresh(this.tokens.refreshToken!, this.oauthClient!);
+        } catch (error) {
+            const authError = new Error(`Failed to refresh Patreon access token: ${error instanceof Error ? error.message : error}`);
+            this.emit('authFailed', authError);
+            throw authError;
+        }
+
+        this.tokens = tokens;
+        
+        // Persist the rotated refresh token right away; the old one is no longer valid
+        await this.saveCache();
+        if (this.onTokenRefresh) {
+            try {
+                await this.onTokenRefresh(tokens);
+            } catch (error) {
+                this.emit('error', error instanceof Error ? error : new Error(String(error)));
             }
-            
-            this.emit("error", error instanceof Error ? error : new Error(String(error)));
-            return [];
         }
+        
+        this.emit('tokenRefreshed', tokens);
+    }
+
+    /**
+     * Convert a JSON:API member resource into MembershipData
+     * @param member The member resource from the API or a webhook payload
+     * @param included Included resources (users, tiers) indexed by type and ID
+     */
+    private mapMember(member: any, included: Map<string, any>): MembershipData {
+        // Find the user data from included resources
+        const userData = included.get(`user:${member.relationships?.user?.data?.id}`);
+        
+        // Collect every entitled tier, with details from included resources where available
+        const tierRefs: any[] = member.relationships?.currently_entitled_tiers?.data || [];
+        const tiers: TierData[] = tierRefs.map((ref: any) => {
+            const tierData = included.get(`tier:${ref.id}`);
+            return {
+                id: ref.id,
+                title: tierData?.attributes?.title,
+                amount: tierData?.attributes?.amount_cents ? 
+                    tierData.attributes.amount_cents / 100 : undefined
+            };
+        });
+        const highestAmount = this.highestTierAmount(tiers);
+        
+        // Extract Discord ID (prioritized field)
+        const discordId = userData?.attributes?.social_connections?.discord?.user_id || null;
+        // Without a Discord social connection, fall back to an account the patron linked themselves
+        const patreonUserId = member.relationships?.user?.data?.id;
+        const link = discordId ? undefined : this.accountLinks.get(patreonUserId ?? '');
+        const lifetimeCents = member.attributes?.campaign_lifetime_support_cents ?? member.attributes?.lifetime_support_cents;
+        
+        return applyPrivacy({
+            id: member.id,
+            status: member.attributes?.patron_status || 'none',
+            fullName: member.attributes?.full_name,
+            email: member.attributes?.email,
+            patronStatus: member.attributes?.patron_status,
+            // Always include Discord ID (even if null)
+            discordId: discordId || link?.discordId || null,
+            campaignId: this.campaignId,
+            // Get pledge amount from the highest tier if available
+            pledgeAmount: highestAmount > 0 ? highestAmount : undefined,
+            tiers,
+            joinedAt: member.attributes?.pledge_relationship_start,
+            // Include expiration date (next charge date)
+            expiresAt: member.attributes?.next_charge_date,
+            // Prefer the campaign total; lifetime_support_cents is its older name
+            lifetimeSupport: lifetimeCents !== undefined && lifetimeCents !== null ? lifetimeCents / 100 : undefined,
+            // Include the raw relationships for advanced usage
+            relationships: member.relationships,
+            patreonUserId: patreonUserId !== undefined ? String(patreonUserId) : undefined,
+            ...(link ? { source: 'oauth-link' } : {})
+        }, this.privacy);
+    }
+
+    /**
+     * Get the amount of the most expensive tier in a set (0 when empty)
+     */
+    private highestTierAmount(tiers: TierData[]): number {
+        return tiers.reduce((max, tier) => Math.max(max, tier.amount || 0), 0);
+    }
+
+    /**
+     * Check whether two tier sets contain the same tier IDs
+     */
+    private sameTiers(a: TierData[], b: TierData[]): boolean {
+        if (a.length !== b.length) {
+            return false;
+        }
+        const ids = new Set(a.map(tier => tier.id));
+        return b.every(tier => ids.has(tier.id));
     }
 
     /**
@@ -323,6 +999,8 @@ class PatreonEvents extends EventEmitter {
         data: Parameters<PatreonEventMap[K]>[0], 
         shouldTrack: boolean = true
     ): boolean {
+        this.health.eventsEmitted[event] = (this.health.eventsEmitted[event] || 0) + 1;
+        
         // If we're not tracking or this is a non-member event, just emit
         if (!shouldTrack || event === 'error' || event === 'ready') {
             return super.emit(event, data);
@@ -331,6 +1009,7 @@ class PatreonEvents extends EventEmitter {
         // For member events, track them based on event type
         const member = data as unknown as MembershipData;
         const now = Date.now();
+        const context = { memberId: member.id, event, cycleId: this.cycle.id };
         
         switch (event) {
             case 'subscribed':
@@ -338,11 +1017,11 @@ class PatreonEvents extends EventEmitter {
                 // Remove canceled or declined data if the user subscribes again
                 if (this.canceledMembers.has(member.id)) {
                     this.canceledMembers.delete(member.id);
-                    console.log(`Removed canceled data for Patron ${member.id} as they subscribed again`);
+                    this.logger.debug("Removed canceled data as they subscribed again", context);
                 }
                 if (this.declinedMembers.has(member.id)) {
                     this.declinedMembers.delete(member.id);
-                    console.log(`Removed declined data for Patron ${member.id} as they subscribed again`);
+                    this.logger.debug("Removed declined data as they subscribed again", context);
                 }
                 break;
             case 'reactivated':
@@ -350,11 +1029,11 @@ class PatreonEvents extends EventEmitter {
                 // Remove canceled or declined data if the user reactivates their membership
                 if (this.canceledMembers.has(member.id)) {
                     this.canceledMembers.delete(member.id);
-                    console.log(`Removed canceled data for Patron ${member.id} as they reactivated their membership`);
+                    this.logger.debug("Removed canceled data as they reactivated their membership", context);
                 }
                 if (this.declinedMembers.has(member.id)) {
                     this.declinedMembers.delete(member.id);
-                    console.log(`Removed declined data for Patron ${member.id} as they reactivated their membership`);
+                    this.logger.debug("Removed declined data as they reactivated their membership", context);
                 }
                 break;
             case 'canceled':
@@ -362,11 +1041,11 @@ class PatreonEvents extends EventEmitter {
                 // Remove subscribed or reactivated data if the user cancels their membership
                 if (this.subscribedMembers.has(member.id)) {
                     this.subscribedMembers.delete(member.id);
-                    console.log(`Removed subscribed data for Patron ${member.id} as they canceled their membership`);
+                    this.logger.debug("Removed subscribed data as they canceled their membership", context);
                 }
                 if (this.reactivatedMembers.has(member.id)) {
                     this.reactivatedMembers.delete(member.id);
-                    console.log(`Removed reactivated data for Patron ${member.id} as they canceled their membership`);
+                    this.logger.debug("Removed reactivated data as they canceled their membership", context);
                 }
                 break;
             case 'declined':
@@ -374,11 +1053,11 @@ class PatreonEvents extends EventEmitter {
                 // Remove subscribed or reactivated data if the user declines their membership
                 if (this.subscribedMembers.has(member.id)) {
                     this.subscribedMembers.delete(member.id);
-                    console.log(`Removed subscribed data for Patron ${member.id} as they declined their membership`);
+                    this.logger.debug("Removed subscribed data as they declined their membership", context);
                 }
                 if (this.reactivatedMembers.has(member.id)) {
                     this.reactivatedMembers.delete(member.id);
-                    console.log(`Removed reactivated data for Patron ${member.id} as they declined their membership`);
+                    this.logger.debug("Removed reactivated data as they declined their membership", context);
                 }
                 break;
             case 'connected':
@@ -387,7 +1066,7 @@ class PatreonEvents extends EventEmitter {
                     // Remove old disconnected data for this user
                     if (this.disconnectedDiscords.has(member.id)) {
                         this.disconnectedDiscords.delete(member.id);
-                        console.log(`Removed old disconnected data for Patron ${member.id}`);
+                        this.logger.debug("Removed old disconnected data", context);
                     }
                 }
                 break;
@@ -397,160 +1076,1343 @@ class PatreonEvents extends EventEmitter {
                     // Remove old connected data for this user
                     if (this.connectedDiscords.has(member.id)) {
                         this.connectedDiscords.delete(member.id);
-                        console.log(`Removed old connected data for Patron ${member.id}`);
+                        this.logger.debug("Removed old connected data", context);
                     }
                 }
                 break;
+            case 'milestone': {
+                const reached = this.milestonesReached.get(member.id) || new Set();
+                reached.add(milestoneKey((data as MilestoneData).milestone));
+                this.milestonesReached.set(member.id, reached);
+                break;
+            }
             case 'expired':
                 // Remove the user from subscribedMembers when their subscription expires
                 if (this.subscribedMembers.has(member.id)) {
                     this.subscribedMembers.delete(member.id);
-                    console.log(`Removed Patron ${member.id} from subscribedMembers due to expired subscription`);
+                    this.logger.debug("Removed from subscribedMembers due to expired subscription", context);
                 }
                 break;
         }
         
+        this.logger.debug(`Emitting ${event}`, { ...context, discordId: member.discordId });
+        this.cycle.emitted.add(`${event}:${member.id}`);
+        this.recordEvent(event, member);
+        this.outbox.enqueue(event, data);
+        
         // After tracking, emit the event
         return super.emit(event, data);
     }
 
     /**
-     * Check if an event has already been processed (to prevent duplicates)
+     * Register a durable handler that receives events at least once
+     * The event is persisted until the handler resolves; rejections are retried with backoff,
+     * and 'deliveryFailed' is emitted once the retries are exhausted
+     * @param event The event to handle
+     * @param handlerId Stable ID for the handler, used to resume delivery after a restart
+     * @param handler Sync or async handler
      */
-    private hasProcessedEvent(event: string, member: MembershipData): boolean {
-        switch (event) {
-            case 'subscribed':
-                return this.subscribedMembers.has(member.id);
-            case 'connected':
-                return this.connectedDiscords.has(member.id) && 
-                       this.connectedDiscords.get(member.id) === member.discordId;
-            case 'disconnected':
-                return this.disconnectedDiscords.has(member.id) && 
-                       this.disconnectedDiscords.get(member.id) === member.discordId;
-            // Other events are time-based and should be re-emitted if they happen again
-            default:
-                return false;
+    handle<K extends keyof PatreonEventMap>(
+        event: K, 
+        handlerId: string, 
+        handler: (data: Parameters<PatreonEventMap[K]>[0]) => void | Promise<void>
+    ): this {
+        this.outbox.register(event, handlerId, handler);
+        
+        // Pick up events persisted for this handler before a restart
+        this.cacheLoaded.then(() => this.scheduleDelivery());
+        return this;
+    }
+
+    /**
+     * Run a delivery pass, or queue one if a pass is already running
+     */
+    private scheduleDelivery(): void {
+        if (this.stopped || !this.isLeader) {
+            return;
+        }
+        if (this.delivering) {
+            this.deliverAgain = true;
+            return;
         }
+
+        this.delivering = this.deliverOutbox().finally(() => {
+            this.delivering = null;
+            if (this.deliverAgain) {
+                this.deliverAgain = false;
+                this.scheduleDelivery();
+            }
+        });
     }
 
-    async checkForUpdates(): Promise<void> {
-        try {
-            const memberships = await this.fetchMemberships();
-            const currentMembers = new Set(memberships.map(member => member.id));
-            
-            // Reset the Discord ID map for refresh
-            this.discordToMemberMap.clear();
-            
-            // Track current Discord IDs for disconnection detection
-            const currentDiscordConnections = new Map<string, string | null>();
+    private async deliverOutbox(): Promise<void> {
+        this.scheduler.cancel('delivery');
+        
+        // Persist acknowledgements and retry state
+        if (await this.outbox.deliver()) {
+            await this.saveCache();
+        }
 
-            memberships.forEach((member) => {
-                const { id, status, discordId } = member;
-                const previousStatus = this.lastMemberships.get(id);
-                const previousDiscordId = this.lastDiscordIds.get(id);
-                
-                // Update the Discord ID to member mapping if the member has a Discord ID
-                if (discordId) {
-                    this.discordToMemberMap.set(discordId, member);
-                }
-                
-                // Track this member's Discord connection
-                currentDiscordConnections.set(id, discordId);
-
-                // Membership status changes (not related to Discord connection)
-                if (!previousStatus) {
-                    // New member - only emit subscribed event if this isn't the first run
-                    // and we haven't already processed this subscription
-                    if (!this.isFirstRun && !this.hasProcessedEvent('subscribed', member)) {
-                        this.emitAndTrack("subscribed", member);
-                    }
-                } else if (previousStatus !== status) {
-                    // Status changes can happen multiple times, so always emit them
-                    if (status === "former_patron") this.emitAndTrack("canceled", member);
-                    if (status === "declined_patron") this.emitAndTrack("declined", member);
-                    if (status === "active_patron" && 
-                        (previousStatus === "former_patron" || previousStatus === "declined_patron")) {
-                        this.emitAndTrack("reactivated", member);
-                    }
-                    if (status === "none") {
-                        // Emit expired event if the membership status becomes "none"
-                        this.emitAndTrack("expired", member);
-                    }
-                }
-                
-                // Discord connection changes - focus specifically on Discord linking/unlinking
-                if (previousDiscordId === undefined || previousDiscordId === null) {
-                    // No previous Discord ID
-                    if (discordId && !this.hasProcessedEvent('connected', member)) {
-                        // New Discord connection that we haven't processed yet
-                        this.emitAndTrack("connected", member);
-                    }
-                } else {
-                    // Had a Discord ID before
-                    if (!discordId) {
-                        // Discord disconnected - create a record with the previous ID
-                        const disconnectMember = {
-                            ...member,
-                            discordId: previousDiscordId // Use the previous ID since current is null
-                        };
-                        
-                        if (!this.hasProcessedEvent('disconnected', disconnectMember)) {
-                            this.emitAndTrack("disconnected", disconnectMember);
-                        }
-                    } else if (previousDiscordId !== discordId) {
-                        // Discord ID changed (account changed) - handle as disconnect + connect
-                        const disconnectMember = {
-                            ...member,
-                            discordId: previousDiscordId
-                        };
-                        
-                        if (!this.hasProcessedEvent('disconnected', disconnectMember)) {
-                            this.emitAndTrack("disconnected", disconnectMember);
-                        }
-                        
-                        if (!this.hasProcessedEvent('connected', member)) {
-                            this.emitAndTrack("connected", member);
-                        }
-                    }
+        const next = this.outbox.nextAttemptAt();
+        if (next !== null) {
+            this.scheduler.schedule('delivery', next, () => this.scheduleDelivery());
+        }
+    }
+
+    /**
+     * Start a new cycle; events are journaled with its ID
+     */
+    private startCycle(): void {
+        this.cycle = { id: crypto.randomUUID(), previous: new Map(), emitted: new Set() };
+    }
+
+    /**
+     * Remember a member's state from before the current cycle changed it
+     */
+    private rememberPreviousState(id: string): void {
+        if (!this.cycle.previous.has(id)) {
+            this.cycle.previous.set(id, {
+                status: this.lastMemberships.get(id),
+                discordId: this.lastDiscordIds.get(id),
+                tiers: this.lastTiers.get(id)
+            });
+        }
+    }
+
+    /**
+     * Append an emitted event to the journal, if one is configured
+     * Writes are queued so entries keep their order; failures are logged, never thrown
+     */
+    private recordEvent(event: string, member: MembershipData): void {
+        if (!this.journal) {
+            return;
+        }
+
+        const journal = this.journal;
+        const entry: JournalEntry = {
+            timestamp: Date.now(),
+            cycleId: this.cycle.id,
+            event,
+            memberId: member.id,
+            discordId: member.discordId,
+            previous: this.cycle.previous.get(member.id) || {},
+            current: { status: member.status, discordId: member.discordId, tiers: member.tiers },
+            data: member
+        };
+
+        this.pendingJournal = this.pendingJournal
+            .then(() => journal.append(entry))
+            .catch(error => this.logger.error("Failed to write journal entry", 
+                { error, memberId: entry.memberId, event, cycleId: entry.cycleId }));
+    }
+
+    /**
+     * Get the recorded events of one member, oldest first
+     * @param memberId The Patreon member ID or Discord ID
+     * @param query Optional time range and event names to narrow the timeline
+     */
+    async getTimeline(memberId: string, query: Omit<JournalQuery, 'memberId'> = {}): Promise<JournalEntry[]> {
+        if (!this.journal) {
+            throw new Error("journal must be configured to query history");
+        }
+        await this.pendingJournal;
+        return this.journal.query({ ...query, memberId: memberId.trim() });
+    }
+
+    /**
+     * Re-emit recorded events to the current listeners, oldest first
+     * Replayed events are neither tracked nor journaled again
+     * @param from Start of the time range (inclusive)
+     * @param to End of the time range (inclusive, default: now)
+     * @param options Restrict the replay to certain events
+     * @returns The number of events replayed
+     */
+    async replay(from: number | Date, to: number | Date = Date.now(), options: { events?: string[] } = {}): Promise<number> {
+        if (!this.journal) {
+            throw new Error("journal must be configured to replay events");
+        }
+        await this.pendingJournal;
+
+        const entries = await this.journal.query({ from, to, events: options.events });
+        for (const entry of entries) {
+            super.emit(entry.event, entry.data);
+        }
+        return entries.length;
+    }
+
+    /**
+     * Check if an event has already been processed (to prevent duplicates)
+     */
+    private hasProcessedEvent(event: string, member: MembershipData): boolean {
+        switch (event) {
+            case 'subscribed':
+                return this.subscribedMembers.has(member.id);
+            case 'connected':
+                return this.connectedDiscords.has(member.id) && 
+                       this.connectedDiscords.get(member.id) === member.discordId;
+            case 'disconnected':
+                return this.disconnectedDiscords.has(member.id) && 
+                       this.disconnectedDiscords.get(member.id) === member.discordId;
+            // Other events are time-based and should be re-emitted if they happen again
+            default:
+                return false;
+        }
+    }
+
+    async checkForUpdates(): Promise<void> {
+        // Followers never poll; they only pick up what the leader saved
+        if (!this.isLeader) {
+            return this.followCache();
+        }
+        
+        const startedAt = Date.now();
+        this.lastCycleChanged = false;
+        this.runningChecks.push(startedAt);
+        try {
+            await this.cacheLoaded;
+            
+            // Members are mapped and checked for changes as pages arrive, but only counted: the diff itself
+            // runs on the complete roster, as the anomaly guard and removal detection need all of it.
+            // A failed fetch throws here, so nothing is diffed against a missing roster
+            let memberships: MembershipData[] = [];
+            let changed = 0;
+            for await (const page of this.fetchMemberPages()) {
+                for (const member of page) {
+                    if (this.isForgottenFormer(member)) {
+                        continue;
+                    }
+                    if (this.hasChanged(member)) {
+                        changed++;
+                    }
+                    memberships.push(member);
+                }
+            }
+            
+            await this.queueChange(async () => {
+                // A webhook applied since the fetch began is newer than this roster; its members
+                // keep the state the webhook left them in, so the check neither undoes nor repeats it
+                const updated = this.webhookUpdatedSince(startedAt);
+                if (updated.size > 0) {
+                    memberships = memberships.filter(member => !updated.has(member.id)).concat(Array.from(updated)
+                        .filter(id => this.lastMemberships.has(id))
+                        .map(id => this.lastKnownMember(id)));
+                    changed += updated.size;
+                }
+                
+                // Nothing moved: skip the full diff, the index rebuild and the cache save
+                // Milestones come due with time alone, so a due one takes the full path too
+                if (changed === 0 && memberships.length === this.members.size && !this.isFirstRun &&
+                    !memberships.some(member => this.dueMilestones(member).length > 0)) {
+                    this.pendingAnomaly = null;
+                    if (this.pruneFormerMembers() > 0) {
+                        await this.saveCache();
+                    }
+                    this.emitSnapshot(crypto.randomUUID());
+                    this.recordCycle(startedAt, null);
+                    return;
+                }
+                
+                const anomaly = this.detectAnomaly(memberships);
+                if (anomaly) {
+                    const key = this.anomalyKey(anomaly);
+                    if (this.pendingAnomaly?.key !== key) {
+                        // Hold the changes until they are confirmed or seen again next cycle
+                        this.pendingAnomaly = { report: anomaly, memberships, key };
+                        this.logger.warn("Anomaly detected, holding changes", {
+                            percentage: Number(anomaly.percentage.toFixed(1)),
+                            removed: anomaly.removed.length,
+                            statusChanged: anomaly.statusChanged.length
+                        });
+                        this.emit("anomalyDetected", anomaly);
+                        this.lastCycleChanged = true;
+                        this.recordCycle(startedAt, null);
+                        return;
+                    }
+                    // The same changes were observed twice in a row, so they are real
+                }
+                
+                await this.applyMemberships(memberships);
+                this.lastCycleChanged = this.cycle.emitted.size > 0;
+                this.recordCycle(startedAt, null);
+            });
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.recordCycle(startedAt, failure);
+            this.emit("error", failure);
+        } finally {
+            this.runningChecks.splice(this.runningChecks.indexOf(startedAt), 1);
+            this.pruneWebhookUpdates();
+        }
+    }
+
+    /**
+     * Run a change to the membership state once the changes queued before it are done
+     * Checks and webhook deliveries go through here, so one never applies in the middle of another
+     */
+    private queueChange<T>(change: () => Promise<T>): Promise<T> {
+        const result = this.changeQueue.then(change);
+        this.changeQueue = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    /**
+     * IDs of the members a webhook delivery changed at or after a timestamp
+     */
+    private webhookUpdatedSince(since: number): Set<string> {
+        const ids = new Set<string>();
+        for (const [id, updatedAt] of this.webhookUpdates) {
+            if (updatedAt >= since) {
+                ids.add(id);
+            }
+        }
+        return ids;
+    }
+
+    /**
+     * Forget webhook updates no running check started before; later checks fetch a newer roster anyway
+     */
+    private pruneWebhookUpdates(): void {
+        const oldest = Math.min(...this.runningChecks);
+        for (const [id, updatedAt] of this.webhookUpdates) {
+            if (updatedAt < oldest) {
+                this.webhookUpdates.delete(id);
+            }
+        }
+    }
+
+    /**
+     * Whether a member differs from what the cache holds for them
+     */
+    private hasChanged(member: MembershipData): boolean {
+        const known = this.members.get(member.id);
+        return !known ||
+            known.status !== member.status ||
+            known.discordId !== member.discordId ||
+            known.email !== member.email ||
+            known.fullName !== member.fullName ||
+            known.joinedAt !== member.joinedAt ||
+            known.expiresAt !== member.expiresAt ||
+            known.pledgeAmount !== member.pledgeAmount ||
+            known.lifetimeSupport !== member.lifetimeSupport ||
+            known.patreonUserId !== member.patreonUserId ||
+            !this.sameTiers(known.tiers || [], member.tiers || []);
+    }
+
+    /**
+     * Record the outcome of a check for getStatus()
+     */
+    private recordCycle(startedAt: number, error: Error | null): void {
+        const now = Date.now();
+        this.health.lastCycleDuration = now - startedAt;
+        if (error) {
+            this.health.lastFailureAt = now;
+            this.health.lastError = redactString(error.message, this.secretValues());
+            this.health.consecutiveFailures++;
+        } else {
+            this.health.lastSuccessAt = now;
+            this.health.consecutiveFailures = 0;
+        }
+    }
+
+    /**
+     * Get the health and activity of the watcher
+     */
+    getStatus(): WatcherStatus {
+        const membersByStatus: Record<string, number> = {};
+        for (const status of this.lastMemberships.values()) {
+            membersByStatus[status] = (membersByStatus[status] || 0) + 1;
+        }
+
+        // Before the first success, the time since startup counts instead
+        const reference = this.health.lastSuccessAt ?? this.health.startedAt;
+        const running = !this.stopped && this.health.startedAt !== null;
+        const healthy = running && reference !== null && Date.now() - reference <= this.healthMaxAge;
+
+        return {
+            running,
+            healthy,
+            leader: this.isLeader,
+            startedAt: this.health.startedAt,
+            lastSuccessAt: this.health.lastSuccessAt,
+            lastFailureAt: this.health.lastFailureAt,
+            lastError: this.health.lastError,
+            consecutiveFailures: this.health.consecutiveFailures,
+            lastCycleDuration: this.health.lastCycleDuration,
+            lastPageCount: this.health.lastPageCount,
+            membersByStatus,
+            eventsEmitted: { ...this.health.eventsEmitted }
+        };
+    }
+
+    /**
+     * Secret values that must never appear in logs or status
+     */
+    private secretValues(): string[] {
+        return [this.tokens.accessToken, this.tokens.refreshToken || '', this.oauthClient?.clientSecret || '', this.webhookSecret || '',
+            this.privacy.hashSecret || ''];
+    }
+
+    /**
+     * Apply the changes held back by the anomaly guard
+     * @returns false if there were no held changes
+     */
+    async confirmAnomaly(): Promise<boolean> {
+        return this.queueChange(async () => {
+            if (!this.pendingAnomaly) {
+                return false;
+            }
+            await this.applyMemberships(this.pendingAnomaly.memberships);
+            return true;
+        });
+    }
+
+    /**
+     * Get the changes currently held back by the anomaly guard, if any
+     */
+    getPendingAnomaly(): AnomalyReport | null {
+        return this.pendingAnomaly?.report || null;
+    }
+
+    /**
+     * Compare a roster with the cache and report it if too many members vanished or changed status
+     */
+    private detectAnomaly(memberships: MembershipData[]): AnomalyReport | null {
+        const knownMembers = this.lastMemberships.size;
+        if (this.anomalyThreshold === null || knownMembers === 0) {
+            return null;
+        }
+
+        const current = new Map(memberships.map(member => [member.id, member.status]));
+        const removed = Array.from(this.lastMemberships.keys()).filter(id => !current.has(id));
+        const statusChanged: AnomalyReport['statusChanged'] = [];
+        for (const [id, to] of current) {
+            const from = this.lastMemberships.get(id);
+            if (from && from !== to) {
+                statusChanged.push({ id, from, to });
+            }
+        }
+
+        const affected = removed.length + statusChanged.length;
+        const percentage = affected / knownMembers * 100;
+        if (affected < this.anomalyMinChanges || percentage <= this.anomalyThreshold) {
+            return null;
+        }
+
+        return { removed, statusChanged, knownMembers, percentage, detectedAt: Date.now() };
+    }
+
+    /**
+     * Identify an anomaly by its changes, so a repeat observation can be recognized
+     */
+    private anomalyKey(report: AnomalyReport): string {
+        const removed = [...report.removed].sort();
+        const changed = report.statusChanged.map(change => `${change.id}:${change.to}`).sort();
+        return JSON.stringify([removed, changed]);
+    }
+
+    /**
+     * Diff a complete roster against the cache, emit the resulting events and save
+     */
+    private async applyMemberships(memberships: MembershipData[]): Promise<void> {
+        this.startCycle();
+        const currentMembers = new Set(memberships.map(member => member.id));
+        
+        // In silent mode, new members are only announced once the first run has seeded the cache;
+        // in emit mode, announceMember announces the active ones instead
+        const announceAll = this.isFirstRun && this.initialSync === 'emit';
+        const silent = this.isFirstRun && this.initialSync === 'silent';
+        // Diffing from the cache only announces new members who are active patrons
+        const activeOnly = this.isFirstRun && this.initialSync === 'diff-from-cache';
+
+        memberships.forEach((member) => {
+            this.processMember(member, silent || announceAll || (activeOnly && member.status !== 'active_patron'));
+            if (announceAll) {
+                this.announceMember(member);
+            }
+        });
+
+        // Detect removed members
+        for (const id of Array.from(this.lastMemberships.keys())) {
+            if (!currentMembers.has(id)) {
+                this.processRemovedMember(id);
+            }
+        }
+
+        // Swap in freshly built indexes; lookups never see a half-built map
+        this.rebuildIndexes();
+        
+        // On a silent first run, milestones already behind are only recorded
+        this.checkMilestones(memberships, silent);
+
+        // After processing, mark first run as complete
+        this.isFirstRun = false;
+        this.pendingAnomaly = null;
+        this.pruneFormerMembers();
+        
+        // Save cache after updates
+        await this.saveCache();
+        
+        this.emitSnapshot(this.cycle.id);
+    }
+
+    /**
+     * Milestones a member has reached but not yet been celebrated for
+     */
+    private dueMilestones(member: MembershipData): Milestone[] {
+        if (!this.milestoneOptions) {
+            return [];
+        }
+        const reached = this.milestonesReached.get(member.id);
+        return reachedMilestones(member, this.milestoneOptions)
+            .filter(milestone => !reached || !reached.has(milestoneKey(milestone)));
+    }
+
+    /**
+     * Emit 'milestone' for every milestone members have newly reached
+     * @param suppress Record the milestones without emitting (used on a silent first run)
+     */
+    private checkMilestones(members: MembershipData[], suppress: boolean): void {
+        for (const member of members) {
+            for (const milestone of this.dueMilestones(member)) {
+                if (suppress) {
+                    const reached = this.milestonesReached.get(member.id) || new Set();
+                    reached.add(milestoneKey(milestone));
+                    this.milestonesReached.set(member.id, reached);
+                } else {
+                    this.emitAndTrack("milestone", { ...member, milestone });
+                }
+            }
+        }
+    }
+
+    /**
+     * Remember the current roster as the latest snapshot and emit it
+     */
+    private emitSnapshot(cycleId: string): void {
+        this.lastSnapshot = {
+            cycleId,
+            takenAt: Date.now(),
+            members: Array.from(this.members.values())
+        };
+        this.emit("snapshot", this.lastSnapshot);
+    }
+
+    /**
+     * Emit 'subscribed' and 'connected' for a current member, even if they were announced before
+     * Used by initialSync 'emit' so listeners can rebuild their state from scratch
+     */
+    private announceMember(member: MembershipData): void {
+        if (member.status === "active_patron" && !this.cycle.emitted.has(`subscribed:${member.id}`)) {
+            this.emitAndTrack("subscribed", member);
+        }
+        if (member.discordId && !this.cycle.emitted.has(`connected:${member.id}`)) {
+            this.emitAndTrack("connected", member);
+        }
+    }
+
+    /**
+     * Get the full roster from the last successful check
+     * @returns The snapshot, or null if no check has completed since startup
+     */
+    getSnapshot(): RosterSnapshot | null {
+        return this.lastSnapshot;
+    }
+
+    /**
+     * Diff a single member against the cached state and emit the resulting events
+     * @param member The current membership data
+     * @param suppressNew Skip 'subscribed' for members not seen before (used on the first run)
+     */
+    private processMember(member: MembershipData, suppressNew: boolean): void {
+        const { id, status, discordId } = member;
+        this.rememberPreviousState(id);
+        const previousStatus = this.lastMemberships.get(id);
+        const previousDiscordId = this.lastDiscordIds.get(id);
+        // A disconnect is reported with the source of the Discord ID that went away
+        const previousSource = this.members.get(id)?.source;
+        const previousTiers = this.lastTiers.get(id);
+        const currentTiers = member.tiers || [];
+        
+        // Carry a running grace period or scheduled expiry over to the fresh member data
+        this.carryGracePeriod(member);
+        this.carryExpiry(member);
+        
+        // Remember the paid-through date, as it may be gone once the patron cancels
+        const chargeDate = member.expiresAt ? Date.parse(member.expiresAt) : NaN;
+        if (!isNaN(chargeDate)) {
+            this.paidThrough.set(id, chargeDate);
+        }
+        
+        // Store the member before emitting, so listeners can look them up
+        this.updateMember(member);
+
+        // Membership status changes (not related to Discord connection)
+        if (!previousStatus) {
+            // New member - only emit subscribed event if it isn't suppressed
+            // and we haven't already processed this subscription
+            if (!suppressNew && !this.hasProcessedEvent('subscribed', member)) {
+                this.emitAndTrack("subscribed", member);
+            }
+        } else if (previousStatus !== status) {
+            // Any status change ends a running grace period or scheduled expiry
+            const hadGracePeriod = this.gracePeriods.has(id);
+            this.clearGracePeriod(id);
+            this.clearExpiry(id);
+            
+            // Status changes can happen multiple times, so always emit them
+            if (status === "former_patron") {
+                if (this.scheduleExpiry) {
+                    this.startExpiry(member);
+                }
+                this.emitAndTrack("canceled", member);
+            }
+            if (status === "declined_patron") {
+                if (this.declineGracePeriod > 0) {
+                    this.startGracePeriod(member);
+                }
+                this.emitAndTrack("declined", member);
+                if (member.gracePeriodEndsAt) {
+                    this.emitAndTrack("gracePeriodStarted", member);
+                }
+            }
+            if (status === "active_patron" && 
+                (previousStatus === "former_patron" || previousStatus === "declined_patron")) {
+                this.emitAndTrack("reactivated", member);
+                if (hadGracePeriod) {
+                    this.emitAndTrack("recovered", member);
+                }
+            }
+            if (status === "none") {
+                // Emit expired event if the membership status becomes "none"
+                this.emitAndTrack("expired", member);
+            }
+        } else if (previousTiers && !this.sameTiers(previousTiers, currentTiers)) {
+            // Tier moves within the same status; status transitions have their own events
+            const change: TierChangeData = { ...member, previousTiers, currentTiers };
+            this.emitAndTrack("tierChanged", change);
+            
+            const previousAmount = this.highestTierAmount(previousTiers);
+            const currentAmount = this.highestTierAmount(currentTiers);
+            if (currentAmount > previousAmount) this.emitAndTrack("upgraded", change);
+            if (currentAmount < previousAmount) this.emitAndTrack("downgraded", change);
+        }
+        
+        // Discord connection changes - focus specifically on Discord linking/unlinking
+        if (previousDiscordId === undefined || previousDiscordId === null) {
+            // No previous Discord ID
+            if (discordId && !this.hasProcessedEvent('connected', member)) {
+                // New Discord connection that we haven't processed yet
+                this.emitAndTrack("connected", member);
+            }
+        } else {
+            // Had a Discord ID before
+            if (!discordId) {
+                // Discord disconnected - create a record with the previous ID
+                const disconnectMember = {
+                    ...member,
+                    discordId: previousDiscordId, // Use the previous ID since current is null
+                    source: previousSource
+                };
+                
+                if (!this.hasProcessedEvent('disconnected', disconnectMember)) {
+                    this.emitAndTrack("disconnected", disconnectMember);
+                }
+            } else if (previousDiscordId !== discordId) {
+                // Discord ID changed (account changed) - handle as disconnect + connect
+                const disconnectMember = {
+                    ...member,
+                    discordId: previousDiscordId,
+                    source: previousSource
+                };
+                
+                if (!this.hasProcessedEvent('disconnected', disconnectMember)) {
+                    this.emitAndTrack("disconnected", disconnectMember);
+                }
+                
+                if (!this.hasProcessedEvent('connected', member)) {
+                    this.emitAndTrack("connected", member);
+                }
+            }
+        }
+        
+        // Update our tracking
+        this.lastMemberships.set(id, status);
+        this.lastDiscordIds.set(id, discordId);
+        this.lastTiers.set(id, currentTiers);
+    }
+
+    /**
+     * Mark a declined patron whose grace period is still running on fresh member data
+     */
+    private carryGracePeriod(member: MembershipData): void {
+        const graceEnd = this.gracePeriods.get(member.id);
+        if (graceEnd !== undefined && member.status === "declined_patron") {
+            member.gracePeriodEndsAt = new Date(graceEnd).toISOString();
+        }
+    }
+
+    /**
+     * Mark a canceled patron who is still paid through on fresh member data
+     */
+    private carryExpiry(member: MembershipData): void {
+        const expiry = this.expiries.get(member.id);
+        if (expiry && member.status === "former_patron") {
+            member.entitledUntil = new Date(expiry.expiresAt).toISOString();
+        }
+    }
+
+    /**
+     * Handle a member that no longer exists in the campaign
+     * @param id The Patreon member ID that was removed
+     */
+    private processRemovedMember(id: string): void {
+        this.rememberPreviousState(id);
+        const lastKnownStatus = this.lastMemberships.get(id) || 'none';
+        const lastKnownDiscordId = this.lastDiscordIds.get(id);
+        
+        // If they had a Discord connection when they left, emit disconnect
+        if (lastKnownDiscordId) {
+            const disconnectMember = { 
+                id, 
+                status: lastKnownStatus,
+                discordId: lastKnownDiscordId
+            };
+            
+            if (!this.hasProcessedEvent('disconnected', disconnectMember)) {
+                this.emitAndTrack("disconnected", disconnectMember);
+            }
+        }
+        
+        this.removeMember(id);
+        
+        // Clean up our maps
+        this.clearGracePeriod(id);
+        this.clearExpiry(id);
+        this.paidThrough.delete(id);
+        this.lastMemberships.delete(id);
+        this.lastDiscordIds.delete(id);
+        this.lastTiers.delete(id);
+    }
+
+    /**
+     * Start the decline grace period for a member and schedule its expiry
+     */
+    private startGracePeriod(member: MembershipData): void {
+        const graceEnd = Date.now() + this.declineGracePeriod;
+        this.gracePeriods.set(member.id, graceEnd);
+        member.gracePeriodEndsAt = new Date(graceEnd).toISOString();
+        this.scheduleGracePeriod(member.id);
+    }
+
+    /**
+     * Cancel a member's grace period and its timer
+     */
+    private clearGracePeriod(id: string): void {
+        this.gracePeriods.delete(id);
+        this.scheduler.cancel(`grace:${id}`);
+    }
+
+    /**
+     * Schedule the timer that ends a member's grace period
+     */
+    private scheduleGracePeriod(id: string): void {
+        const graceEnd = this.gracePeriods.get(id);
+        if (graceEnd !== undefined) {
+            this.scheduler.schedule(`grace:${id}`, graceEnd, () => this.expireGracePeriod(id));
+        }
+    }
+
+    /**
+     * End a grace period, emitting 'graceExpired' if the member is still declined
+     */
+    private expireGracePeriod(id: string): void {
+        this.startCycle();
+        this.rememberPreviousState(id);
+        this.clearGracePeriod(id);
+
+        if (this.lastMemberships.get(id) === "declined_patron") {
+            const member = this.lastKnownMember(id);
+            delete member.gracePeriodEndsAt;
+            this.updateMember(member);
+            this.emitAndTrack("graceExpired", member);
+        }
+
+        this.saveCache();
+    }
+
+    /**
+     * Keep a canceled patron entitled until their paid-through date, if it lies ahead
+     */
+    private startExpiry(member: MembershipData): void {
+        const expiresAt = this.paidThrough.get(member.id);
+        if (expiresAt === undefined || expiresAt <= Date.now()) {
+            return;
+        }
+
+        this.expiries.set(member.id, { expiresAt, warned: [] });
+        member.entitledUntil = new Date(expiresAt).toISOString();
+        this.scheduleExpiryTimer(member.id);
+    }
+
+    /**
+     * Cancel a member's scheduled expiry and its timer
+     */
+    private clearExpiry(id: string): void {
+        this.expiries.delete(id);
+        this.scheduler.cancel(`expiry:${id}`);
+    }
+
+    /**
+     * Schedule the timer for a member's next expiry warning or the expiry itself
+     */
+    private scheduleExpiryTimer(id: string): void {
+        const expiry = this.expiries.get(id);
+        if (!expiry) {
+            return;
+        }
+
+        const warningTimes = this.expiryWarnings
+            .filter(lead => !expiry.warned.includes(lead))
+            .map(lead => expiry.expiresAt - lead);
+        const next = Math.min(expiry.expiresAt, ...warningTimes);
+        this.scheduler.schedule(`expiry:${id}`, next, () => this.processExpiry(id));
+    }
+
+    /**
+     * Emit due expiry warnings, or 'expired' once the paid-through date has passed
+     */
+    private processExpiry(id: string): void {
+        const expiry = this.expiries.get(id);
+        if (!expiry) {
+            return;
+        }
+
+        const now = Date.now();
+        const member = this.lastKnownMember(id);
+        this.startCycle();
+        this.rememberPreviousState(id);
+
+        if (now >= expiry.expiresAt) {
+            this.clearExpiry(id);
+            delete member.entitledUntil;
+            this.updateMember(member);
+            this.emitAndTrack("expired", member);
+        } else {
+            // Warnings missed while offline collapse into one; only the most urgent is emitted
+            const due = this.expiryWarnings.filter(lead => 
+                !expiry.warned.includes(lead) && expiry.expiresAt - lead <= now);
+            if (due.length > 0) {
+                expiry.warned.push(...due);
+                member.entitledUntil = new Date(expiry.expiresAt).toISOString();
+                this.emitAndTrack("expiringSoon", member);
+            }
+            this.scheduleExpiryTimer(id);
+        }
+
+        this.saveCache();
+    }
+
+    /**
+     * Build the most complete data we have for a member outside of a check
+     */
+    private lastKnownMember(id: string): MembershipData {
+        const known = this.members.get(id);
+        return known ? 
+            { ...known } : { id, status: this.lastMemberships.get(id) || 'none', discordId: this.lastDiscordIds.get(id) || null };
+    }
+
+    /**
+     * Store a member's data and update the lookup indexes for them
+     */
+    private updateMember(member: MembershipData): void {
+        const previous = this.members.get(member.id);
+        this.members.set(member.id, member);
+
+        if (previous?.discordId && previous.discordId !== member.discordId &&
+            this.discordToMemberMap.get(previous.discordId)?.id === member.id) {
+            this.discordToMemberMap.delete(previous.discordId);
+        }
+        if (member.discordId) {
+            this.discordToMemberMap.set(member.discordId, member);
+        }
+
+        const previousEmail = previous?.email?.toLowerCase();
+        if (previousEmail && previousEmail !== member.email?.toLowerCase() &&
+            this.emailToMemberMap.get(previousEmail)?.id === member.id) {
+            this.emailToMemberMap.delete(previousEmail);
+        }
+        if (member.email) {
+            this.emailToMemberMap.set(member.email.toLowerCase(), member);
+        }
+    }
+
+    /**
+     * Forget a member's data and drop them from the lookup indexes
+     */
+    private removeMember(id: string): void {
+        const previous = this.members.get(id);
+        this.members.delete(id);
+
+        if (previous?.discordId && this.discordToMemberMap.get(previous.discordId)?.id === id) {
+            this.discordToMemberMap.delete(previous.discordId);
+        }
+        const previousEmail = previous?.email?.toLowerCase();
+        if (previousEmail && this.emailToMemberMap.get(previousEmail)?.id === id) {
+            this.emailToMemberMap.delete(previousEmail);
+        }
+    }
+
+    /**
+     * Rebuild the lookup indexes from the member data and swap them in at once
+     */
+    private rebuildIndexes(): void {
+        const byDiscordId = new Map<string, MembershipData>();
+        const byEmail = new Map<string, MembershipData>();
+
+        for (const member of this.members.values()) {
+            if (member.discordId) byDiscordId.set(member.discordId, member);
+            if (member.email) byEmail.set(member.email.toLowerCase(), member);
+        }
+
+        this.discordToMemberMap = byDiscordId;
+        this.emailToMemberMap = byEmail;
+    }
+
+    /**
+     * Erase everything known about a person: membership data, event tracking, account link,
+     * manual grant, events still waiting for delivery and journal entries
+     * No events are emitted and Discord roles are left as they are. Someone still on the
+     * roster comes back as a new member with the next check
+     * @param patreonIdOrDiscordId The Patreon member ID or Discord ID
+     * @returns Whether anything was known about them
+     */
+    async forgetMember(patreonIdOrDiscordId: string): Promise<boolean> {
+        this.requireLeader('forgetMember');
+        await this.cacheLoaded;
+
+        const id = patreonIdOrDiscordId.trim();
+        const memberIds = this.trackedMemberIds().filter(memberId =>
+            memberId === id || this.discordIdsOf(memberId).includes(id));
+        // A Discord ID may also be known from a grant or an account link alone
+        const discordIds = memberIds.includes(id) ? [] : [id];
+
+        const forgotten = this.purgeMembers(memberIds, discordIds);
+        if (forgotten) {
+            this.logger.info("Forgot member", { memberIds: memberIds.length });
+            await this.saveCache();
+            await this.pendingJournal;
+        }
+        return forgotten;
+    }
+
+    /**
+     * Whether a roster entry is a former patron the retention policy has forgotten, or would
+     * forget anyway; such members are not tracked again unless they return
+     */
+    private isForgottenFormer(member: MembershipData): boolean {
+        return this.privacy.retention !== undefined && member.status === 'former_patron' &&
+            !this.lastMemberships.has(member.id);
+    }
+
+    /**
+     * Forget former patrons once the retention period has passed since they left
+     * A member counts as former once canceled or gone from the roster, and a grant once revoked or lapsed;
+     * a scheduled expiry or a live grant for their Discord account holds them
+     * @returns The number of members forgotten
+     */
+    private pruneFormerMembers(): number {
+        const retention = this.privacy.retention;
+        if (retention === undefined) {
+            return 0;
+        }
+
+        const now = Date.now();
+        const grantIds = new Set(Array.from(this.manualGrants.keys(), grantMemberId));
+        const expired: string[] = [];
+        for (const id of this.trackedMemberIds()) {
+            const status = this.lastMemberships.get(id);
+            if (grantIds.has(id) || (status !== undefined && status !== 'former_patron')) {
+                this.formerSince.delete(id);
+                continue;
+            }
+
+            const since = this.formerSince.get(id);
+            if (since === undefined) {
+                this.formerSince.set(id, now);
+            } else if (now - since >= retention && !this.expiries.has(id) &&
+                !this.discordIdsOf(id).some(discordId => this.manualGrants.has(discordId))) {
+                expired.push(id);
+            }
+        }
+
+        if (expired.length > 0) {
+            this.purgeMembers(expired, []);
+            this.logger.info("Forgot former members after the retention period", { count: expired.length });
+        }
+        return expired.length;
+    }
+
+    /**
+     * Every member ID anything is remembered about
+     */
+    private trackedMemberIds(): string[] {
+        return Array.from(new Set([
+            ...this.lastMemberships.keys(), ...this.members.keys(), ...this.subscribedMembers,
+            ...this.canceledMembers.keys(), ...this.declinedMembers.keys(), ...this.reactivatedMembers.keys(),
+            ...this.connectedDiscords.keys(), ...this.disconnectedDiscords.keys(), ...this.milestonesReached.keys(),
+            ...this.paidThrough.keys(), ...this.formerSince.keys()
+        ]));
+    }
+
+    /**
+     * Every Discord ID a member is or was connected with
+     */
+    private discordIdsOf(id: string): string[] {
+        return [this.lastDiscordIds.get(id), this.members.get(id)?.discordId,
+            this.connectedDiscords.get(id), this.disconnectedDiscords.get(id)]
+            .filter((discordId): discordId is string => !!discordId);
+    }
+
+    /**
+     * Drop members and Discord accounts from every map, the indexes, the outbox and the journal
+     * The cache is left for the caller to save
+     * @returns Whether anything was removed
+     */
+    private purgeMembers(memberIds: string[], discordIds: string[]): boolean {
+        const ids = new Set(memberIds);
+        const accounts = new Set([...discordIds, ...memberIds.flatMap(id => this.discordIdsOf(id))]);
+        const patreonUserIds = new Set(memberIds
+            .map(id => this.members.get(id)?.patreonUserId)
+            .filter((userId): userId is string => !!userId));
+        let removed = ids.size > 0;
+
+        for (const id of ids) {
+            this.removeMember(id);
+            this.clearGracePeriod(id);
+            this.clearExpiry(id);
+            this.lastMemberships.delete(id);
+            this.lastDiscordIds.delete(id);
+            this.lastTiers.delete(id);
+            this.subscribedMembers.delete(id);
+            this.canceledMembers.delete(id);
+            this.declinedMembers.delete(id);
+            this.reactivatedMembers.delete(id);
+            this.connectedDiscords.delete(id);
+            this.disconnectedDiscords.delete(id);
+            this.paidThrough.delete(id);
+            this.milestonesReached.delete(id);
+            this.formerSince.delete(id);
+            this.cycle.previous.delete(id);
+        }
+
+        for (const discordId of accounts) {
+            if (this.manualGrants.delete(discordId)) {
+                this.scheduler.cancel(`grant:${discordId}`);
+                removed = true;
+            }
+        }
+        for (const link of Array.from(this.accountLinks.values())) {
+            if (patreonUserIds.has(link.patreonUserId) || accounts.has(link.discordId)) {
+                this.accountLinks.delete(link.patreonUserId);
+                removed = true;
+            }
+        }
+
+        const involves = (member: MembershipData) =>
+            ids.has(member.id) || (!!member.discordId && accounts.has(member.discordId));
+        if (this.outbox.discard(entry => involves(entry.data)) > 0) {
+            removed = true;
+        }
+        if (this.lastSnapshot) {
+            this.lastSnapshot = { ...this.lastSnapshot, members: this.lastSnapshot.members.filter(member => !involves(member)) };
+        }
+        if (this.pendingAnomaly) {
+            this.pendingAnomaly.memberships = this.pendingAnomaly.memberships.filter(member => !involves(member));
+        }
+
+        this.eraseJournal([...ids, ...accounts]);
+        return removed;
+    }
+
+    /**
+     * Remove the journal entries of members and Discord accounts, queued behind pending writes
+     */
+    private eraseJournal(memberIds: string[]): void {
+        const journal = this.journal;
+        if (!journal || memberIds.length === 0) {
+            return;
+        }
+        if (!journal.erase) {
+            this.logger.warn("Journal does not support erasure; entries of forgotten members remain");
+            return;
+        }
+
+        this.pendingJournal = this.pendingJournal
+            .then(async () => {
+                for (const memberId of memberIds) {
+                    await journal.erase!(memberId);
                 }
-                
-                // Update our tracking
-                this.lastMemberships.set(id, status);
-                this.lastDiscordIds.set(id, discordId);
-            });
+            })
+            .catch(error => this.logger.error("Failed to erase journal entries", { error }));
+    }
 
-            // Detect removed members
-            for (const id of this.lastMemberships.keys()) {
-                if (!currentMembers.has(id)) {
-                    const lastKnownStatus = this.lastMemberships.get(id) || 'none';
-                    const lastKnownDiscordId = this.lastDiscordIds.get(id);
-                    
-                    // If they had a Discord connection when they left, emit disconnect
-                    if (lastKnownDiscordId) {
-                        const disconnectMember = { 
-                            id, 
-                            status: lastKnownStatus,
-                            discordId: lastKnownDiscordId
-                        };
-                        
-                        if (!this.hasProcessedEvent('disconnected', disconnectMember)) {
-                            this.emitAndTrack("disconnected", disconnectMember);
-                        }
-                    }
-                    
-                    // Clean up our maps
-                    this.lastMemberships.delete(id);
-                    this.lastDiscordIds.delete(id);
+    /**
+     * Process a Patreon webhook delivery
+     * Use this to mount the receiver in your own HTTP server, or set webhookPort to use the built-in one
+     * @param rawBody The unparsed request body, exactly as received
+     * @param headers The request headers (X-Patreon-Event and X-Patreon-Signature are read)
+     * @returns The outcome, which maps to the HTTP status to respond with
+     */
+    handleWebhook(rawBody: string | Buffer, headers: WebhookHeaders): WebhookResult {
+        if (!this.webhookSecret) {
+            throw new Error("webhookSecret must be configured to handle webhooks");
+        }
+
+        if (!verifyWebhookSignature(rawBody, getHeader(headers, 'x-patreon-signature'), this.webhookSecret)) {
+            return 'invalid_signature';
+        }
+
+        const trigger = getHeader(headers, 'x-patreon-event');
+        if (!trigger || !MEMBER_WEBHOOK_TRIGGERS.includes(trigger)) {
+            return 'ignored';
+        }
+        
+        // Only the leader applies deliveries; a retryable failure makes Patreon deliver it again,
+        // as in webhook mode no later poll would pick the change up
+        if (!this.isLeader) {
+            return 'not_leader';
+        }
+
+        let payload: PatreonApiResponse;
+        try {
+            payload = JSON.parse(rawBody.toString());
+        } catch (error) {
+            return 'invalid_payload';
+        }
+
+        // Webhook payloads carry a single member resource rather than a list
+        const resource = payload?.data as any;
+        if (!resource || resource.type !== 'member' || !resource.id) {
+            return 'invalid_payload';
+        }
+
+        // A check whose fetch is already running must not apply its older state for this member
+        if (this.runningChecks.length > 0) {
+            this.webhookUpdates.set(resource.id, Date.now());
+        }
+
+        // Apply once the cache has loaded, so the diff runs against the persisted state,
+        // and in turn with checks, so the two never interleave
+        this.queueChange(async () => {
+            await this.cacheLoaded;
+            this.startCycle();
+            if (trigger === 'members:delete') {
+                this.processRemovedMember(resource.id);
+            } else {
+                const included = this.indexIncluded(payload.included);
+                const member = this.mapMember(resource, included);
+                if (this.isForgottenFormer(member)) {
+                    return;
+                }
+
+                // Webhook user includes may omit social connections; keep the known Discord ID then
+                const userData = included.get(`user:${resource.relationships?.user?.data?.id}`);
+                if (!userData?.attributes || !('social_connections' in userData.attributes)) {
+                    member.discordId = this.lastDiscordIds.get(member.id) ?? null;
+                    member.source = this.members.get(member.id)?.source;
                 }
+
+                this.processMember(member, false);
+                this.checkMilestones([member], false);
             }
 
-            // After processing, mark first run as complete
-            this.isFirstRun = false;
-            
-            // Save cache after updates if cache file is configured
+            this.pruneFormerMembers();
+            return this.saveCache();
+        }).catch(error => {
+            this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        });
+
+        return 'accepted';
+    }
+
+    /**
+     * Reconcile Discord roles for the whole roster
+     * @param options Set dryRun to only report the changes that would be made
+     * @returns Report of the planned or applied role changes
+     */
+    async syncRoles(options: { dryRun?: boolean } = {}): Promise<RoleSyncReport> {
+        if (!this.roles) {
+            throw new Error("roleSync must be configured to sync roles");
+        }
+
+        const memberships = await this.fetchMemberships();
+        // Fresh roster data knows nothing of grace periods or paid-through access, so patrons
+        // still entitled through either would lose their roles
+        await this.cacheLoaded;
+        memberships.forEach(member => {
+            this.carryGracePeriod(member);
+            this.carryExpiry(member);
+        });
+        return this.roles.reconcile(memberships.concat(this.grants.list()), options);
+    }
+
+    /**
+     * Grant a virtual membership to a Discord account, or update an existing grant
+     * Emits 'subscribed' for a new grant and 'tierChanged' when an existing grant's tier changes
+     */
+    private async grantMembership(discordId: string, options: GrantOptions): Promise<MembershipData> {
+        this.requireLeader('grants.grant');
+        await this.cacheLoaded;
+
+        const existing = this.manualGrants.get(discordId);
+        const grant: ManualGrant = {
+            discordId,
+            tier: options.tier,
+            grantedAt: existing ? existing.grantedAt : Date.now(),
+            expiresAt: options.expiresAt !== undefined ? Number(options.expiresAt) : undefined,
+            note: options.note
+        };
+        if (grant.expiresAt !== undefined && grant.expiresAt <= Date.now()) {
+            throw new Error("expiresAt must lie in the future");
+        }
+
+        this.manualGrants.set(discordId, grant);
+        this.scheduleGrantExpiry(discordId);
+
+        const member = grantToMember(grant);
+        this.startCycle();
+        if (!existing) {
+            this.emitAndTrack("subscribed", member);
+        } else {
+            const previousTiers = existing.tier ? [existing.tier] : [];
+            if (!this.sameTiers(previousTiers, member.tiers || [])) {
+                this.emitAndTrack("tierChanged", { ...member, previousTiers, currentTiers: member.tiers || [] });
+            }
+        }
+
+        await this.saveCache();
+        return member;
+    }
+
+    /**
+     * Revoke a manual grant right away, emitting 'expired'
+     * @returns Whether a grant existed
+     */
+    private async revokeMembership(discordId: string): Promise<boolean> {
+        this.requireLeader('grants.revoke');
+        await this.cacheLoaded;
+        if (!this.manualGrants.has(discordId)) {
+            return false;
+        }
+
+        this.startCycle();
+        this.endGrant(discordId);
+        await this.saveCache();
+        return true;
+    }
+
+    /**
+     * Schedule the lapse of a grant with an expiry
+     */
+    private scheduleGrantExpiry(discordId: string): void {
+        const grant = this.manualGrants.get(discordId);
+        if (!grant || grant.expiresAt === undefined) {
+            this.scheduler.cancel(`grant:${discordId}`);
+            return;
+        }
+
+        this.scheduler.schedule(`grant:${discordId}`, grant.expiresAt, () => {
+            this.startCycle();
+            this.endGrant(discordId);
             this.saveCache();
-        } catch (error) {
-            this.emit("error", error instanceof Error ? error : new Error(String(error)));
+        });
+    }
+
+    /**
+     * Remove a grant and emit 'expired' for it
+     */
+    private endGrant(discordId: string): void {
+        const grant = this.manualGrants.get(discordId);
+        if (!grant) {
+            return;
+        }
+
+        this.manualGrants.delete(discordId);
+        this.scheduler.cancel(`grant:${discordId}`);
+        this.emitAndTrack("expired", grantToMember(grant, false));
+    }
+
+    /**
+     * Link a Discord account to a Patreon user, replacing earlier links of either account
+     * Emits 'connected' with source 'oauth-link' unless the patron has a Discord social connection
+     */
+    private async linkAccount(patreonUserId: string, discordId: string): Promise<AccountLink> {
+        this.requireLeader('links.link');
+        await this.cacheLoaded;
+        const link: AccountLink = { patreonUserId, discordId, linkedAt: Date.now() };
+
+        this.startCycle();
+        // A Discord account belongs to one patron
+        for (const existing of Array.from(this.accountLinks.values())) {
+            if (existing.discordId === discordId && existing.patreonUserId !== patreonUserId) {
+                this.accountLinks.delete(existing.patreonUserId);
+                this.applyLink(existing.patreonUserId);
+            }
+        }
+        this.accountLinks.set(patreonUserId, link);
+        this.applyLink(patreonUserId);
+        this.logger.info("Linked Discord account", { patreonUserId, discordId });
+
+        await this.saveCache();
+        return link;
+    }
+
+    /**
+     * Remove an account link, emitting 'disconnected' with source 'oauth-link' if it was in use
+     * @returns Whether a link existed
+     */
+    private async unlinkAccount(patreonUserIdOrDiscordId: string): Promise<boolean> {
+        this.requireLeader('links.unlink');
+        await this.cacheLoaded;
+        const link = this.findLink(patreonUserIdOrDiscordId);
+        if (!link) {
+            return false;
+        }
+
+        this.startCycle();
+        this.accountLinks.delete(link.patreonUserId);
+        this.applyLink(link.patreonUserId);
+
+        await this.saveCache();
+        return true;
+    }
+
+    private findLink(patreonUserIdOrDiscordId: string): AccountLink | null {
+        return this.accountLinks.get(patreonUserIdOrDiscordId) ||
+            Array.from(this.accountLinks.values()).find(link => link.discordId === patreonUserIdOrDiscordId) || null;
+    }
+
+    /**
+     * Bring a known patron's Discord ID in line with their account link
+     * A Discord social connection takes precedence, so those patrons are left alone
+     */
+    private applyLink(patreonUserId: string): void {
+        const member = Array.from(this.members.values())
+            .find(known => known.patreonUserId === patreonUserId);
+        if (!member || (member.discordId && member.source !== 'oauth-link')) {
+            return;
+        }
+
+        const link = this.accountLinks.get(patreonUserId);
+        const updated: MembershipData = { ...member, discordId: link ? link.discordId : null };
+        if (link) {
+            updated.source = 'oauth-link';
+        } else {
+            delete updated.source;
+        }
+
+        if (updated.discordId !== member.discordId) {
+            this.processMember(updated, false);
         }
     }
 
@@ -570,20 +2432,216 @@ class PatreonEvents extends EventEmitter {
      * Emits 'ready' event when the first check is complete
      */
     initialize(): void {
+        this.stopped = false;
+        this.announcedReady = false;
+        this.health.startedAt = Date.now();
+        
+        if (this.metricsServer && !this.metricsServer.listening) {
+            this.metricsServer.start().catch(error => {
+                this.emit('error', error instanceof Error ? error : new Error(String(error)));
+            });
+        }
+        
+        // With a leader lock, only the replica holding it monitors; the others follow the shared cache
+        if (this.leaderLock) {
+            this.runElection();
+        } else {
+            this.startMonitoring();
+        }
+    }
+
+    /**
+     * Whether this replica polls and emits: it holds the leader lock, or none is configured
+     */
+    get isLeader(): boolean {
+        return this.leaderLock === null || this.leading;
+    }
+
+    /**
+     * Refuse a change on a follower: its next save would overwrite the leader's cache,
+     * and the leader's next save would throw the change away
+     */
+    private requireLeader(method: string): void {
+        if (!this.isLeader) {
+            throw new Error(`${method} must be called on the leader, which owns the cache`);
+        }
+    }
+
+    /**
+     * Resume timers, start the webhook and linking servers and begin polling
+     * Emits 'ready' when the first check is complete
+     */
+    private startMonitoring(): void {
+        // Resume grace periods and expiries persisted before a restart
+        this.cacheLoaded.then(() => {
+            for (const id of this.gracePeriods.keys()) {
+                this.scheduleGracePeriod(id);
+            }
+            for (const id of this.expiries.keys()) {
+                this.scheduleExpiryTimer(id);
+            }
+            for (const discordId of this.manualGrants.keys()) {
+                this.scheduleGrantExpiry(discordId);
+            }
+        });
+        
+        // Start receiving webhooks right away so no delivery is missed during the initial check
+        if (this.webhookServer && !this.webhookServer.listening) {
+            this.webhookServer.start().catch(error => {
+                this.emit('error', error instanceof Error ? error : new Error(String(error)));
+            });
+        }
+
+        if (this.linking && !this.linking.listening) {
+            this.linking.start().catch(error => {
+                this.emit('error', error instanceof Error ? error : new Error(String(error)));
+            });
+        }
+
         // Initial data check
         this.checkForUpdates().then(() => {
-            // Set up regular interval using the configured checkInterval
-            this.intervalId = setInterval(() => this.checkForUpdates(), this.checkInterval);
+            // Leadership may have been lost or the instance stopped during the first check
+            if (this.stopped || !this.isLeader) {
+                return;
+            }
+            
+            // Set up regular polling; hybrid mode keeps a slower reconciliation poll as a safety net
+            if (this.adaptivePolling && this.mode !== 'webhook') {
+                this.pollInterval = this.adaptivePolling.minInterval;
+                this.scheduleAdaptivePoll();
+            } else if (this.mode === 'poll') {
+                this.intervalId = setInterval(() => this.checkForUpdates(), this.checkInterval);
+            } else if (this.mode === 'hybrid') {
+                this.intervalId = setInterval(() => this.checkForUpdates(), this.reconcileInterval);
+            }
             
             // Set up regular cache saving
             this.cacheSaveIntervalId = setInterval(() => this.saveCache(), this.cacheSaveInterval);
             
-            this.emit('ready');
+            this.announceReady();
         }).catch(error => {
             this.emit('error', error instanceof Error ? error : new Error(String(error)));
         });
     }
 
+    /**
+     * Stop polling, timers and the webhook and linking servers
+     */
+    private async stopMonitoring(): Promise<void> {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        
+        if (this.cacheSaveIntervalId) {
+            clearInterval(this.cacheSaveIntervalId);
+            this.cacheSaveIntervalId = null;
+        }
+        
+        this.scheduler.clear();
+        
+        if (this.webhookServer) {
+            await this.webhookServer.stop().catch(() => undefined);
+        }
+        if (this.linking) {
+            await this.linking.stop().catch(() => undefined);
+        }
+    }
+
+    /**
+     * Emit 'ready' once per initialize(), whether this replica leads or follows
+     */
+    private announceReady(): void {
+        if (!this.announcedReady) {
+            this.announcedReady = true;
+            this.emit('ready');
+        }
+    }
+
+    /**
+     * Take or renew the leader lock, then start or stop monitoring to match
+     * Runs every third of the lock TTL; followers refresh their state from the shared cache in between
+     */
+    private async runElection(): Promise<void> {
+        let held: boolean;
+        try {
+            held = await this.leaderLock!.acquire(this.instanceId, this.leaderLockTtl);
+        } catch (error) {
+            // Leadership that can't be confirmed is given up, so two replicas never both emit
+            this.logger.warn("Failed to acquire the leader lock", { error });
+            held = false;
+        }
+        
+        if (this.stopped) {
+            // stop() ran while the lock was being taken
+            if (held && !this.leading) {
+                await this.leaderLock!.release(this.instanceId).catch(() => undefined);
+            }
+            return;
+        }
+        
+        if (held && !this.leading) {
+            this.leading = true;
+            this.logger.info("Acquired leadership", { instanceId: this.instanceId });
+            if (this.followed) {
+                // Continue where the previous leader left off rather than seeding again
+                await this.loadCache();
+                this.isFirstRun = false;
+            }
+            this.emit('leadershipAcquired');
+            this.startMonitoring();
+        } else if (!held && this.leading) {
+            this.leading = false;
+            this.followed = true;
+            this.logger.warn("Lost leadership", { instanceId: this.instanceId });
+            await this.stopMonitoring();
+            this.emit('leadershipLost');
+        } else if (!held) {
+            this.followed = true;
+            await this.followCache();
+        }
+        
+        if (!this.stopped) {
+            this.electionTimer = setTimeout(() => this.runElection(), this.leaderLockTtl / 3);
+        }
+    }
+
+    /**
+     * Refresh a follower's state from the shared cache, so lookups stay current
+     */
+    private async followCache(): Promise<void> {
+        const startedAt = Date.now();
+        try {
+            const cacheData = await this.cacheStore.load();
+            if (cacheData) {
+                this.applyCache(cacheData);
+            }
+            this.recordCycle(startedAt, null);
+            this.announceReady();
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.recordCycle(startedAt, failure);
+            this.emit("error", failure);
+        }
+    }
+
+    /**
+     * Schedule the next adaptive poll: back at the shortest interval after a check with changes,
+     * otherwise a little later each time up to the longest
+     */
+    private scheduleAdaptivePoll(): void {
+        const { minInterval, maxInterval, backoff } = this.adaptivePolling!;
+        this.pollInterval = this.lastCycleChanged ? minInterval : Math.min(maxInterval, this.pollInterval * backoff);
+
+        this.scheduler.schedule('poll', Date.now() + this.pollInterval, () => {
+            this.checkForUpdates().then(() => {
+                if (!this.stopped) {
+                    this.scheduleAdaptivePoll();
+                }
+            });
+        });
+    }
+
     /**
      * Restart the Patreon events monitoring
      * Clears the current interval and starts a new one
@@ -594,41 +2652,91 @@ class PatreonEvents extends EventEmitter {
             clearInterval(this.intervalId);
             this.intervalId = null;
         }
+        this.scheduler.cancel('poll');
         
         if (this.cacheSaveIntervalId) {
             clearInterval(this.cacheSaveIntervalId);
             this.cacheSaveIntervalId = null;
         }
         
+        // Followers have nothing to restart; the election keeps running
+        if (!this.isLeader) {
+            return;
+        }
+        
         // Save cache before restarting
         this.saveCache();
         
         // Start a fresh check cycle
-        this.initialize();
+        if (this.leaderLock) {
+            this.announcedReady = false;
+            this.startMonitoring();
+        } else {
+            this.initialize();
+        }
     }
     
     /**
      * Stop monitoring and clean up resources
+     * Resolves once the webhook server is closed and the cache is saved
      */
-    stop(): void {
-        if (this.intervalId) {
-            clearInterval(this.intervalId);
-            this.intervalId = null;
+    async stop(): Promise<void> {
+        // Pending grace periods, expiries, grant expiries and deliveries stay in the cache and resume on the next initialize()
+        this.stopped = true;
+        if (this.electionTimer) {
+            clearTimeout(this.electionTimer);
+            this.electionTimer = null;
+        }
+        if (this.delivering) {
+            await this.delivering;
         }
         
-        if (this.cacheSaveIntervalId) {
-            clearInterval(this.cacheSaveIntervalId);
-            this.cacheSaveIntervalId = null;
+        // Stop polling, timers, receiving webhooks and link requests and serving metrics
+        await this.stopMonitoring();
+        if (this.metricsServer) {
+            await this.metricsServer.stop().catch(() => undefined);
         }
         
-        // Save cache on shutdown
-        this.saveCache();
+        // Save cache and flush the journal and notifications on shutdown; followers leave the cache to the leader
+        if (this.isLeader) {
+            await this.saveCache();
+        }
+        await this.pendingJournal;
+        if (this.notifier) {
+            await this.notifier.flush();
+        }
+        
+        // Hand leadership over right away rather than when the lock expires
+        if (this.leaderLock && this.leading) {
+            this.leading = false;
+            await this.leaderLock.release(this.instanceId).catch(() => undefined);
+        }
         
-        // Remove all listeners
+        // Remove all listeners; role sync and notifications listen again, ready for the next initialize()
         this.removeAllListeners();
+        this.attachSubsystems();
     }
 }
 
 // Export for both ESM and CommonJS
-export { PatreonEvents, PatreonOptions, MembershipData, PatreonEventMap };
+export { PatreonEvents, PatreonOptions, CacheData, MembershipData, TierData, TierChangeData, MilestoneData, AnomalyReport, AdaptivePollingOptions, RosterSnapshot, CampaignData, IdentityData, PatreonEventMap };
+export { MemberFilter, MemberStats } from "./src/query";
+export { OutboxEntry, DeliveryFailure } from "./src/delivery";
+export { ManualGrant, GrantOptions, grantMemberId, grantToMember } from "./src/grants";
+export { LeaderLock, FileLeaderLock } from "./src/leader";
+export { LinkServer, LinkingOptions, OAuthProviderOptions, AccountLink } from "./src/linking";
+export { MilestoneOptions, Milestone, milestoneKey, monthsBetween, reachedMilestones } from "./src/milestones";
+export { PrivacyOptions, PiiField, applyPrivacy, hashPii, normalizeEmail } from "./src/privacy";
+export { WatcherStatus, MetricsServer, renderPrometheus } from "./src/metrics";
+export { Logger, LogLevel, LogContext, consoleLogger, silentLogger } from "./src/logger";
+export { FakePatreonServer, FakePatreonServerOptions, FakeMember, FakeRequest, Simulator, SimulatedEvent } from "./src/testing";
+export { EventJournal, JournalEntry, JournalQuery, MemberState, MemoryJournal, JsonlJournal } from "./src/journal";
+export { verifyWebhookSignature, WebhookResult } from "./src/webhook";
+export { RoleSync, RoleSyncOptions, RoleRule, RoleChange, RoleSyncReport } from "./src/roles";
+export { DiscordClient, DiscordClientOptions } from "./src/discord";
+export { CampaignManager, CampaignManagerOptions, CampaignEventMap } from "./src/campaigns";
+export { RateLimiter } from "./src/http";
+export { DiscordNotifier, NotifierOptions, NotifierRoute, NotifierEvent, EmbedTemplate, DiscordEmbed, DEFAULT_TEMPLATES, renderTemplate } from "./src/notifier";
+export { TokenSet } from "./src/auth";
+export { CacheStore, MemoryCacheStore, JsonFileCacheStore, SqliteCacheStore, SqliteDatabase, SharedCacheStore } from "./src/cache";
 export default PatreonEvents;
\ No newline at end of file
@@ -0,0 +1,52 @@
+import axios from "axios";
+
+// Refresh this long before a known expiry so in-flight requests don't fail (5 minutes)
+export const TOKEN_REFRESH_MARGIN = 300000;
+
+// A Patreon OAuth token set
+export interface TokenSet {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number; // Timestamp (ms) when the access token expires, if known
+    scope?: string;
+}
+
+// Interface for the OAuth client credentials used to refresh tokens
+export interface OAuthClientOptions {
+    clientId: string;
+    clientSecret: string;
+    tokenUrl?: string; // Token endpoint (default: https://www.patreon.com/api/oauth2/token)
+}
+
+/**
+ * Exchange a refresh token for a new token set
+ * Patreon rotates refresh tokens, so the returned refreshToken must be stored for next time
+ */
+export async function requestTokenRefresh(refreshToken: string, client: OAuthClientOptions): Promise<TokenSet> {
+    const body = new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: client.clientId,
+        client_secret: client.clientSecret
+    });
+
+    const response = await axios.post(client.tokenUrl || 'https://www.patreon.com/api/oauth2/token', body.toString(), {
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json'
+        }
+    });
+
+    const data = response.data || {};
+    if (!data.access_token) {
+        throw new Error("Token refresh response did not contain an access token");
+    }
+
+    return {
+        accessToken: data.access_token,
+        // Keep the old refresh token if the server didn't rotate it
+        refreshToken: data.refresh_token || refreshToken,
+        expiresAt: data.expires_in ? Date.now() + Number(data.expires_in) * 1000 : undefined,
+        scope: data.scope
+    };
+}
@@ -0,0 +1,192 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { CacheData } from "../index";
+
+/**
+ * Storage backend for the persistent cache
+ * Implement this to keep the cache wherever your deployment needs it
+ */
+export interface CacheStore {
+    load(): Promise<CacheData | null>; // Resolve null when nothing has been saved yet
+    save(data: CacheData): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * Keeps the cache in memory only; nothing survives a restart
+ */
+export class MemoryCacheStore implements CacheStore {
+    private data: string | null = null;
+
+    async load(): Promise<CacheData | null> {
+        return this.data ? JSON.parse(this.data) as CacheData : null;
+    }
+
+    async save(data: CacheData): Promise<void> {
+        // Store a serialized copy so later mutations of the maps don't leak in
+        this.data = JSON.stringify(data);
+    }
+
+    async clear(): Promise<void> {
+        this.data = null;
+    }
+}
+
+/**
+ * Keeps the cache in a JSON file
+ * Writes go to a temp file that is renamed over the target, so a crash never leaves a partial file
+ */
+export class JsonFileCacheStore implements CacheStore {
+    readonly file: string;
+
+    constructor(file: string) {
+        this.file = path.resolve(file);
+    }
+
+    async load(): Promise<CacheData | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.file, 'utf8')) as CacheData;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async save(data: CacheData): Promise<void> {
+        // Ensure the directory exists
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+
+        const tempFile = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+        try {
+            await fs.promises.writeFile(tempFile, JSON.stringify(data, null, 2));
+            await fs.promises.rename(tempFile, this.file);
+        } catch (error) {
+            await fs.promises.unlink(tempFile).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    async clear(): Promise<void> {
+        await fs.promises.unlink(this.file).catch((error: NodeJS.ErrnoException) => {
+            if (error.code !== 'ENOENT') throw error;
+        });
+    }
+}
+
+// Minimal synchronous SQLite API, as offered by better-sqlite3 and node:sqlite
+export interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): {
+        run(...params: unknown[]): unknown;
+        get(...params: unknown[]): unknown;
+    };
+}
+
+/**
+ * Keeps the cache in a SQLite table, one row per key
+ * Pass an open database handle, e.g. new Database('patreon.db') from better-sqlite3
+ */
+export class SqliteCacheStore implements CacheStore {
+    private db: SqliteDatabase;
+    private table: string;
+    private key: string;
+
+    /**
+     * @param db An open SQLite database handle
+     * @param options table defaults to patreon_cache, key to default; use distinct keys to share a table
+     */
+    constructor(db: SqliteDatabase, options: { table?: string; key?: string } = {}) {
+        this.db = db;
+        this.table = options.table || 'patreon_cache';
+        this.key = options.key || 'default';
+
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+            throw new Error(`Invalid SQLite table name: ${this.table}`);
+        }
+
+        this.db.exec(`CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at INTEGER NOT NULL)`);
+    }
+
+    async load(): Promise<CacheData | null> {
+        const row = this.db.prepare(`SELECT value FROM ${this.table} WHERE key = ?`).get(this.key) as { value: string } | undefined;
+        return row ? JSON.parse(row.value) as CacheData : null;
+    }
+
+    async save(data: CacheData): Promise<void> {
+        this.db.prepare(`INSERT INTO ${this.table} (key, value, updated_at) VALUES (?, ?, ?) ` +
+            `ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`)
+            .run(this.key, JSON.stringify(data), Date.now());
+    }
+
+    async clear(): Promise<void> {
+        this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(this.key);
+    }
+}
+
+/**
+ * Keeps the caches of several campaigns in one store
+ * Each campaign's cache lives under campaigns[campaignId] of the shared document
+ */
+export class SharedCacheStore {
+    private store: CacheStore;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(store: CacheStore) {
+        this.store = store;
+    }
+
+    /**
+     * Get the store for one campaign
+     */
+    forCampaign(campaignId: string): CacheStore {
+        return {
+            load: async () => {
+                // Let our own writes land first, so a load never sees an older document
+                await this.writing.catch(() => undefined);
+                return (await this.load()).campaigns?.[campaignId] || null;
+            },
+            save: (data) => this.update(document => {
+                document.campaigns = { ...document.campaigns, [campaignId]: data };
+            }),
+            clear: () => this.update(document => {
+                if (document.campaigns) {
+                    delete document.campaigns[campaignId];
+                }
+            })
+        };
+    }
+
+    /**
+     * Read the shared document; it is never kept, as another replica may write it at any time
+     */
+    private async load(): Promise<CacheData> {
+        return (await this.store.load()) || {
+            lastUpdated: Date.now(),
+            memberships: {},
+            discordIds: {},
+            subscribedMembers: [],
+            canceledMembers: {},
+            declinedMembers: {},
+            reactivatedMembers: {},
+            connectedDiscords: {},
+            disconnectedDiscords: {},
+            campaigns: {}
+        };
+    }
+
+    /**
+     * Change the shared document and save it, one write at a time
+     */
+    private update(change: (document: CacheData) => void): Promise<void> {
+        const write = this.writing.catch(() => undefined).then(async () => {
+            const document = await this.load();
+            change(document);
+            document.lastUpdated = Date.now();
+            await this.store.save(document);
+        });
+        this.writing = write;
+        return write;
+    }
+}
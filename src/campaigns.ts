@@ -0,0 +1,212 @@
+import { EventEmitter } from "events";
+import * as crypto from "crypto";
+import * as os from "os";
+import * as path from "path";
+import { CacheStore, JsonFileCacheStore, SharedCacheStore } from "./cache";
+import { RateLimiter } from "./http";
+import { matchesFilter, MemberFilter } from "./query";
+import type { WatcherStatus } from "./metrics";
+import { PatreonEvents } from "../index";
+import type { PatreonOptions, PatreonEventMap, MembershipData } from "../index";
+
+// Interface for the campaign manager options
+export interface CampaignManagerOptions {
+    campaigns: PatreonOptions[]; // One entry per campaign, each with its own credentials
+    defaults?: Partial<PatreonOptions>; // Settings for every campaign, unless the campaign overrides them
+    cacheStore?: CacheStore; // One store for every campaign's cache
+    cacheFile?: string; // Path of the shared cache file (default: campaigns.json in the package directory)
+    requestsPerMinute?: number; // Patreon API requests shared by every campaign (default: 100)
+}
+
+// Every event of a campaign is re-emitted by the manager with the campaign ID as last argument;
+// 'ready' fires once every campaign has completed its first check
+export type CampaignEventMap = {
+    [K in Exclude<keyof PatreonEventMap, 'ready'>]: (...args: [...Parameters<PatreonEventMap[K]>, string]) => void;
+} & {
+    ready: () => void;
+};
+
+// Events whose payload is a membership
+const MEMBER_EVENTS = new Set<keyof PatreonEventMap>([
+    'subscribed', 'connected', 'canceled', 'declined', 'reactivated', 'disconnected', 'expired',
+    'tierChanged', 'upgraded', 'downgraded', 'gracePeriodStarted', 'graceExpired', 'recovered', 'expiringSoon', 'milestone'
+]);
+
+const FORWARDED_EVENTS: Exclude<keyof PatreonEventMap, 'ready'>[] = [
+    ...Array.from(MEMBER_EVENTS) as Exclude<keyof PatreonEventMap, 'ready'>[],
+    'anomalyDetected', 'deliveryFailed', 'snapshot', 'tokenRefreshed', 'authFailed',
+    'leadershipAcquired', 'leadershipLost', 'error'
+];
+
+/**
+ * Tag a membership with its campaign; manual grants carry none of their own
+ */
+function tag<T extends MembershipData>(member: T, campaignId: string): T {
+    return member.campaignId ? member : { ...member, campaignId };
+}
+
+/**
+ * CampaignManager - Monitors several Patreon campaigns from one place
+ * Every campaign gets its own PatreonEvents instance and credentials, while the cache store
+ * and the Patreon API request budget are shared. With a leader lock, every campaign of a manager
+ * uses the same instance ID, so one replica leads them all
+ */
+export class CampaignManager extends EventEmitter {
+    private instances: Map<string, PatreonEvents> = new Map();
+    private pendingReady: Set<string> = new Set();
+
+    // Lookups across every campaign
+    public users = {
+        /**
+         * Membership of a Discord user, preferring an active one in any campaign
+         */
+        get: (discordId: string): MembershipData | null => {
+            const memberships = this.users.getAll(discordId);
+            return memberships.find(member => member.status === 'active_patron') || memberships[0] || null;
+        },
+        getAll: (discordId: string): MembershipData[] => {
+            return Array.from(this.instances.entries()).flatMap(([campaignId, patreon]) =>
+                patreon.users.getAll(discordId).map(member => tag(member, campaignId)));
+        },
+        /**
+         * Whether a Discord user is an active patron of any campaign
+         */
+        isPatron: (discordId: string): boolean => {
+            return this.users.get(discordId)?.status === 'active_patron';
+        },
+        getByEmail: (email: string): MembershipData[] => {
+            return Array.from(this.instances.entries()).flatMap(([campaignId, patreon]) => {
+                const member = patreon.users.getByEmail(email);
+                return member ? [tag(member, campaignId)] : [];
+            });
+        },
+        list: (filter: MemberFilter = {}): MembershipData[] => {
+            return Array.from(this.instances.entries()).flatMap(([campaignId, patreon]) =>
+                patreon.users.list().map(member => tag(member, campaignId)).filter(member => matchesFilter(member, filter)));
+        },
+        count: (filter: MemberFilter = {}): number => {
+            return this.users.list(filter).length;
+        }
+    };
+
+    constructor(options: CampaignManagerOptions) {
+        super();
+        if (options.campaigns.length === 0) {
+            throw new Error("At least one campaign is required");
+        }
+
+        const store = new SharedCacheStore(options.cacheStore || new JsonFileCacheStore(options.cacheFile ?
+            path.resolve(options.cacheFile) : path.resolve(__dirname, "..", "campaigns.json")));
+        const rateLimiter = new RateLimiter(options.requestsPerMinute || 100, 60000);
+        // Campaigns sharing a lock must not compete for it, so they share the owner too
+        const instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+        for (const campaign of options.campaigns) {
+            const campaignId = campaign.campaignId;
+            if (this.instances.has(campaignId)) {
+                throw new Error(`Campaign "${campaignId}" is configured more than once`);
+            }
+
+            const patreon = new PatreonEvents({
+                instanceId,
+                ...options.defaults,
+                ...campaign,
+                cacheStore: store.forCampaign(campaignId),
+                rateLimiter
+            });
+            this.forward(patreon, campaignId);
+            this.instances.set(campaignId, patreon);
+        }
+    }
+
+    // Type-safe event emitter methods
+    emit<K extends keyof CampaignEventMap>(event: K, ...args: Parameters<CampaignEventMap[K]>): boolean {
+        return super.emit(event, ...args);
+    }
+
+    on<K extends keyof CampaignEventMap>(event: K, listener: CampaignEventMap[K]): this {
+        return super.on(event, listener as (...args: any[]) => void);
+    }
+
+    once<K extends keyof CampaignEventMap>(event: K, listener: CampaignEventMap[K]): this {
+        return super.once(event, listener as (...args: any[]) => void);
+    }
+
+    off<K extends keyof CampaignEventMap>(event: K, listener: CampaignEventMap[K]): this {
+        return super.off(event, listener as (...args: any[]) => void);
+    }
+
+    /**
+     * Campaign IDs, in configuration order
+     */
+    get campaignIds(): string[] {
+        return Array.from(this.instances.keys());
+    }
+
+    /**
+     * The instance monitoring a campaign, e.g. for grants or role sync
+     */
+    get(campaignId: string): PatreonEvents | null {
+        return this.instances.get(campaignId) || null;
+    }
+
+    /**
+     * Start monitoring every campaign
+     * Emits 'ready' once every campaign has completed its first check
+     */
+    initialize(): void {
+        this.pendingReady = new Set(this.instances.keys());
+        for (const patreon of this.instances.values()) {
+            patreon.initialize();
+        }
+    }
+
+    /**
+     * Check every campaign now
+     */
+    async checkForUpdates(): Promise<void> {
+        await Promise.all(Array.from(this.instances.values()).map(patreon => patreon.checkForUpdates()));
+    }
+
+    /**
+     * Health of every campaign, by campaign ID
+     */
+    getStatus(): Record<string, WatcherStatus> {
+        const status: Record<string, WatcherStatus> = {};
+        for (const [campaignId, patreon] of this.instances) {
+            status[campaignId] = patreon.getStatus();
+        }
+        return status;
+    }
+
+    /**
+     * Stop every campaign and save their caches
+     */
+    async stop(): Promise<void> {
+        await Promise.all(Array.from(this.instances.values()).map(patreon => patreon.stop()));
+        this.removeAllListeners();
+        // Stopping a campaign removes its listeners, so forward its events again for the next initialize()
+        for (const [campaignId, patreon] of this.instances) {
+            this.forward(patreon, campaignId);
+        }
+    }
+
+    /**
+     * Re-emit a campaign's events with its campaign ID
+     */
+    private forward(patreon: PatreonEvents, campaignId: string): void {
+        for (const event of FORWARDED_EVENTS) {
+            patreon.on(event, ((...args: any[]) => {
+                const payload = MEMBER_EVENTS.has(event) ? [tag(args[0], campaignId)] : args;
+                (this.emit as (event: string, ...args: any[]) => boolean)(event, ...payload, campaignId);
+            }) as PatreonEventMap[typeof event]);
+        }
+
+        patreon.on('ready', () => {
+            // Only the first check of each campaign after initialize() counts
+            if (this.pendingReady.delete(campaignId) && this.pendingReady.size === 0) {
+                this.emit('ready');
+            }
+        });
+    }
+}
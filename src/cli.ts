@@ -0,0 +1,419 @@
+#!/usr/bin/env node
+import * as path from "path";
+import { PatreonEvents, MembershipData, CacheData } from "../index";
+import { JsonFileCacheStore, CacheStore } from "./cache";
+import { MemoryJournal, JournalEntry } from "./journal";
+import { MemberFilter, matchesFilter } from "./query";
+import { Logger, formatLogLine } from "./logger";
+
+const USAGE = `Usage: patreon-connect-discord <command> [options]
+
+Commands:
+  verify                    Check the access token and campaign ID, and show the granted scopes
+  campaigns                 List the campaigns the access token can see
+  members                   List the roster
+  diff                      Show what the next check would emit against the cache, without saving
+  cache inspect             Summarize the cache file
+  cache reset               Delete the cache file
+  cache prune               Drop tracking data of members no longer in the roster
+
+Options:
+  --token <token>           Creator access token (env: PATREON_ACCESS_TOKEN)
+  --campaign <id>           Campaign ID (env: PATREON_CAMPAIGN_ID)
+  --cache <file>            Cache file (env: PATREON_CACHE_FILE, default: the package's data.json)
+  --api-base-url <url>      Patreon API base URL
+  --format <format>         Output format: table, json or csv (default: table)
+  --verbose                 Log every request and event to stderr
+
+Member filters:
+  --status <status>         Only members with this status (comma separated for several)
+  --tier <id>               Only members entitled to this tier
+  --min-pledge <dollars>    Only members pledging at least this much
+  --discord, --no-discord   Only members with or without a linked Discord account
+`;
+
+// Parsed command line: positional arguments and --options
+interface CliArgs {
+    positional: string[];
+    options: Record<string, string | boolean>;
+}
+
+// Thrown for invalid invocations, printed with the usage text
+class UsageError extends Error {}
+
+/**
+ * Split the command line into positional arguments and options
+ * Supports --key value, --key=value, --flag and --no-flag
+ */
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { positional: [], options: {} };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            args.positional.push(arg);
+            continue;
+        }
+
+        const equals = arg.indexOf('=');
+        const key = equals === -1 ? arg.slice(2) : arg.slice(2, equals);
+        if (equals !== -1) {
+            args.options[key] = arg.slice(equals + 1);
+        } else if (key.startsWith('no-')) {
+            args.options[key.slice(3)] = false;
+        } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+            args.options[key] = argv[++i];
+        } else {
+            args.options[key] = true;
+        }
+    }
+
+    return args;
+}
+
+/**
+ * Read a string option, falling back to an environment variable
+ */
+function option(args: CliArgs, key: string, env?: string): string | undefined {
+    const value = args.options[key];
+    if (typeof value === 'string') {
+        return value;
+    }
+    return env ? process.env[env] : undefined;
+}
+
+function cacheFile(args: CliArgs): string {
+    // Same default as PatreonEvents uses when no cacheFile is given
+    return path.resolve(option(args, 'cache', 'PATREON_CACHE_FILE') || path.resolve(__dirname, '..', 'data.json'));
+}
+
+// Library logging goes to stderr so stdout stays machine-readable
+const stderrLogger: Logger = {
+    debug: (message, context) => process.stderr.write(formatLogLine(message, context) + '\n'),
+    info: (message, context) => process.stderr.write(formatLogLine(message, context) + '\n'),
+    warn: (message, context) => process.stderr.write(formatLogLine(message, context) + '\n'),
+    error: (message, context) => process.stderr.write(formatLogLine(message, context) + '\n')
+};
+
+/**
+ * Create a PatreonEvents instance from the command line options
+ * Nothing is monitored; the instance is only used for one-off requests and checks
+ */
+function createClient(args: CliArgs, cacheStore: CacheStore, extra: { journal?: MemoryJournal } = {}): PatreonEvents {
+    const accessToken = option(args, 'token', 'PATREON_ACCESS_TOKEN');
+    if (!accessToken) {
+        throw new UsageError("An access token is required (--token or PATREON_ACCESS_TOKEN)");
+    }
+
+    return new PatreonEvents({
+        accessToken,
+        campaignId: option(args, 'campaign', 'PATREON_CAMPAIGN_ID') || '',
+        apiBaseUrl: option(args, 'api-base-url'),
+        cacheStore,
+        journal: extra.journal,
+        logger: stderrLogger,
+        logLevel: args.options.verbose ? 'debug' : 'warn',
+        // Compare against the cache the way an ongoing process would, announcing members it has not seen
+        initialSync: 'diff-from-cache'
+    });
+}
+
+function requireCampaign(args: CliArgs): void {
+    if (!option(args, 'campaign', 'PATREON_CAMPAIGN_ID')) {
+        throw new UsageError("A campaign ID is required (--campaign or PATREON_CAMPAIGN_ID)");
+    }
+}
+
+/**
+ * Store that reads the cache file but never writes it
+ */
+function readOnlyStore(file: string): CacheStore {
+    const store = new JsonFileCacheStore(file);
+    return {
+        load: () => store.load(),
+        save: async () => undefined,
+        clear: async () => undefined
+    };
+}
+
+/**
+ * Print rows in the requested format
+ */
+function printRows(rows: Record<string, unknown>[], columns: string[], format: string): void {
+    if (format === 'json') {
+        process.stdout.write(JSON.stringify(rows, null, 2) + '\n');
+        return;
+    }
+
+    const cell = (value: unknown): string => value === undefined || value === null ? '' : String(value);
+
+    if (format === 'csv') {
+        const escape = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+        const lines = [columns.join(',')].concat(rows.map(row => columns.map(column => escape(cell(row[column]))).join(',')));
+        process.stdout.write(lines.join('\n') + '\n');
+        return;
+    }
+
+    if (format !== 'table') {
+        throw new UsageError(`Unknown format "${format}"`);
+    }
+
+    const widths = columns.map(column => Math.max(column.length, ...rows.map(row => cell(row[column]).length)));
+    const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd();
+    const lines = [line(columns), line(widths.map(width => '-'.repeat(width)))]
+        .concat(rows.map(row => line(columns.map(column => cell(row[column])))));
+    process.stdout.write(lines.join('\n') + '\n');
+}
+
+function memberRow(member: MembershipData): Record<string, unknown> {
+    return {
+        id: member.id,
+        status: member.status,
+        discordId: member.discordId,
+        pledge: member.pledgeAmount,
+        tiers: (member.tiers || []).map(tier => tier.title || tier.id).join('; '),
+        name: member.fullName,
+        email: member.email
+    };
+}
+
+/**
+ * verify: probe the endpoints behind each scope the integration relies on
+ */
+async function verify(args: CliArgs): Promise<number> {
+    requireCampaign(args);
+    const patreon = createClient(args, readOnlyStore(cacheFile(args)));
+    const campaignId = option(args, 'campaign', 'PATREON_CAMPAIGN_ID');
+    const scopes: string[] = [];
+    let ok = true;
+
+    try {
+        const identity = await patreon.fetchIdentity();
+        scopes.push('identity');
+        console.error(`Token belongs to ${identity.fullName || 'user'} (${identity.id})`);
+    } catch (error) {
+        console.error(`identity: ${describeError(error)}`);
+    }
+
+    try {
+        const campaigns = await patreon.fetchCampaigns();
+        scopes.push('campaigns');
+        if (campaigns.some(campaign => campaign.id === campaignId)) {
+            console.error(`Campaign ${campaignId} found`);
+        } else {
+            ok = false;
+            console.error(`Campaign ${campaignId} is not among the token's campaigns: ${campaigns.map(campaign => campaign.id).join(', ') || 'none'}`);
+        }
+    } catch (error) {
+        ok = false;
+        console.error(`campaigns: ${describeError(error)}`);
+    }
+
+    try {
+        const members = await patreon.fetchMemberships();
+        scopes.push('campaigns.members');
+        // Emails are silently left out without the email scope, so they only prove it when present
+        if (members.some(member => member.email)) {
+            scopes.push('campaigns.members[email]');
+        }
+        const linked = members.filter(member => member.discordId).length;
+        console.error(`Roster: ${members.length} members, ${linked} with a linked Discord account`);
+    } catch (error) {
+        ok = false;
+        console.error(`campaigns.members: ${describeError(error)}`);
+    }
+
+    process.stdout.write(`Scopes: ${scopes.join(', ') || 'none'}\n`);
+    process.stdout.write(ok ? 'OK\n' : 'FAILED\n');
+    return ok ? 0 : 1;
+}
+
+/**
+ * campaigns: list the campaigns the token can see, to find the campaign ID
+ */
+async function campaigns(args: CliArgs): Promise<number> {
+    const patreon = createClient(args, readOnlyStore(cacheFile(args)));
+    const list = await patreon.fetchCampaigns();
+    printRows(list.map(campaign => ({ ...campaign })), ['id', 'name', 'vanity', 'patronCount', 'url'], option(args, 'format') || 'table');
+    return 0;
+}
+
+/**
+ * members: list the roster, optionally filtered
+ */
+async function members(args: CliArgs): Promise<number> {
+    requireCampaign(args);
+    const patreon = createClient(args, readOnlyStore(cacheFile(args)));
+
+    const filter: MemberFilter = {};
+    const status = option(args, 'status');
+    if (status) filter.status = status.split(',');
+    const tier = option(args, 'tier');
+    if (tier) filter.tierId = tier;
+    const minPledge = option(args, 'min-pledge');
+    if (minPledge) {
+        filter.minPledge = Number(minPledge);
+        if (isNaN(filter.minPledge)) {
+            throw new UsageError(`Invalid --min-pledge "${minPledge}"`);
+        }
+    }
+    if (typeof args.options.discord === 'boolean') filter.hasDiscord = args.options.discord;
+
+    const roster = (await patreon.fetchMemberships()).filter(member => matchesFilter(member, filter));
+    printRows(roster.map(memberRow), ['id', 'status', 'discordId', 'pledge', 'tiers', 'name', 'email'], option(args, 'format') || 'table');
+    return 0;
+}
+
+/**
+ * diff: run a check against the cache with a read-only store and report the recorded events
+ */
+async function diff(args: CliArgs): Promise<number> {
+    requireCampaign(args);
+    const journal = new MemoryJournal();
+    const patreon = createClient(args, readOnlyStore(cacheFile(args)), { journal });
+
+    let failure = null as Error | null;
+    patreon.on('error', error => { failure = error; });
+    patreon.on('anomalyDetected', report => {
+        console.error(`The anomaly guard would hold this check: ${report.removed.length} removed and ` +
+            `${report.statusChanged.length} status changes (${report.percentage.toFixed(1)}% of members)`);
+    });
+
+    await patreon.checkForUpdates();
+    // Clears the timers the check may have scheduled; the read-only store ignores the final save
+    await patreon.stop();
+    if (failure) {
+        throw failure;
+    }
+
+    const entries = await journal.query({});
+    printRows(entries.map((entry: JournalEntry) => ({
+        event: entry.event,
+        memberId: entry.memberId,
+        discordId: entry.discordId,
+        from: entry.previous.status,
+        to: entry.current.status
+    })), ['event', 'memberId', 'discordId', 'from', 'to'], option(args, 'format') || 'table');
+    return 0;
+}
+
+/**
+ * cache inspect|reset|prune
+ */
+async function cache(args: CliArgs): Promise<number> {
+    const file = cacheFile(args);
+    const store = new JsonFileCacheStore(file);
+    const action = args.positional[1];
+
+    if (action === 'reset') {
+        await store.clear();
+        process.stdout.write(`Deleted ${file}\n`);
+        return 0;
+    }
+    if (action !== 'inspect' && action !== 'prune') {
+        throw new UsageError(`Unknown cache command "${action || ''}"`);
+    }
+
+    const data = await store.load();
+    if (!data) {
+        process.stdout.write(`No cache at ${file}\n`);
+        return 0;
+    }
+
+    if (action === 'prune') {
+        const removed = pruneCache(data);
+        await store.save(data);
+        process.stdout.write(`Removed ${removed} stale entries from ${file}\n`);
+        return 0;
+    }
+
+    const byStatus: Record<string, number> = {};
+    for (const status of Object.values(data.memberships || {})) {
+        byStatus[status] = (byStatus[status] || 0) + 1;
+    }
+    const summary = {
+        file,
+        lastUpdated: data.lastUpdated ? new Date(data.lastUpdated).toISOString() : null,
+        memberships: Object.keys(data.memberships || {}).length,
+        byStatus,
+        linkedDiscords: Object.values(data.discordIds || {}).filter(Boolean).length,
+        gracePeriods: Object.keys(data.gracePeriods || {}).length,
+        expiries: Object.keys(data.expiries || {}).length,
+        grants: Object.keys(data.grants || {}).length,
+        pendingDeliveries: (data.outbox || []).length,
+        storedTokens: !!data.tokens
+    };
+
+    if (option(args, 'format') === 'json') {
+        process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+    } else {
+        for (const [key, value] of Object.entries(summary)) {
+            process.stdout.write(`${key}: ${typeof value === 'object' && value !== null ? JSON.stringify(value) : value}\n`);
+        }
+    }
+    return 0;
+}
+
+/**
+ * Drop event tracking kept for members that are no longer in the roster
+ * Such members are announced as new if they ever return
+ * @returns Number of entries removed
+ */
+function pruneCache(data: CacheData): number {
+    const known = new Set(Object.keys(data.memberships || {}));
+    for (const discordId of Object.keys(data.grants || {})) {
+        known.add(`manual:${discordId}`);
+    }
+
+    let removed = 0;
+    const tracked = [data.canceledMembers, data.declinedMembers, data.reactivatedMembers, data.connectedDiscords, data.disconnectedDiscords];
+    for (const record of tracked) {
+        for (const id of Object.keys(record || {})) {
+            if (!known.has(id)) {
+                delete record[id];
+                removed++;
+            }
+        }
+    }
+
+    const subscribed = (data.subscribedMembers || []).filter(id => known.has(id));
+    removed += (data.subscribedMembers || []).length - subscribed.length;
+    data.subscribedMembers = subscribed;
+
+    return removed;
+}
+
+function describeError(error: unknown): string {
+    const response = (error as any)?.response;
+    if (response) {
+        return `HTTP ${response.status} ${response.statusText || ''}`.trim();
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+const COMMANDS: Record<string, (args: CliArgs) => Promise<number>> = { verify, campaigns, members, diff, cache };
+
+async function main(argv: string[]): Promise<number> {
+    const args = parseArgs(argv);
+    const command = COMMANDS.hasOwnProperty(args.positional[0]) ? COMMANDS[args.positional[0]] : null;
+
+    if (!command || args.options.help) {
+        process.stdout.write(USAGE);
+        return args.options.help ? 0 : 2;
+    }
+
+    try {
+        return await command(args);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            console.error(`${error.message}\n\n${USAGE}`);
+            return 2;
+        }
+        console.error(`Error: ${describeError(error)}`);
+        return 1;
+    }
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
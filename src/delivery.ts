@@ -0,0 +1,153 @@
+import * as crypto from "crypto";
+import { RetryOptions, retryDelay } from "./http";
+
+// An event waiting to be acknowledged by its handlers
+export interface OutboxEntry {
+    id: string;
+    event: string;
+    data: any;
+    createdAt: number;
+    // Handler ID -> delivery progress, for every handler that has not acknowledged yet
+    pending: Record<string, { attempts: number; nextAttemptAt: number }>;
+}
+
+// Reported when a handler still fails after every retry
+export interface DeliveryFailure {
+    event: string;
+    handlerId: string;
+    data: any;
+    error: Error;
+    attempts: number;
+}
+
+export type DeliveryHandler = (data: any) => void | Promise<void>;
+
+/**
+ * Outbox - Holds events until every durable handler has acknowledged them
+ * A handler acknowledges by resolving; throwing or rejecting schedules a retry with backoff
+ */
+export class Outbox {
+    private entries: OutboxEntry[] = [];
+    private handlers: Map<string, Map<string, DeliveryHandler>> = new Map(); // event -> handler ID -> handler
+    private policy: Required<RetryOptions>;
+    private onFailure: (failure: DeliveryFailure) => void;
+
+    constructor(policy: Required<RetryOptions>, onFailure: (failure: DeliveryFailure) => void) {
+        this.policy = policy;
+        this.onFailure = onFailure;
+    }
+
+    /**
+     * Register a durable handler; the ID must stay the same across restarts
+     */
+    register(event: string, handlerId: string, handler: DeliveryHandler): void {
+        const handlers = this.handlers.get(event) || new Map<string, DeliveryHandler>();
+        if (handlers.has(handlerId)) {
+            throw new Error(`A handler with ID "${handlerId}" is already registered for "${event}"`);
+        }
+        handlers.set(handlerId, handler);
+        this.handlers.set(event, handlers);
+    }
+
+    /**
+     * Queue an event for every handler registered for it
+     * @returns Whether anything was queued
+     */
+    enqueue(event: string, data: any): boolean {
+        const handlers = this.handlers.get(event);
+        if (!handlers || handlers.size === 0) {
+            return false;
+        }
+
+        const pending: OutboxEntry['pending'] = {};
+        for (const handlerId of handlers.keys()) {
+            pending[handlerId] = { attempts: 0, nextAttemptAt: 0 };
+        }
+        this.entries.push({ id: crypto.randomUUID(), event, data, createdAt: Date.now(), pending });
+        return true;
+    }
+
+    /**
+     * Drop entries without delivering them, e.g. those of a member being forgotten
+     * @returns The number of entries dropped
+     */
+    discard(match: (entry: OutboxEntry) => boolean): number {
+        const count = this.entries.length;
+        this.entries = this.entries.filter(entry => !match(entry));
+        return count - this.entries.length;
+    }
+
+    /**
+     * Deliver every entry that is due, oldest first
+     * @returns Whether any entry changed
+     */
+    async deliver(): Promise<boolean> {
+        let changed = false;
+
+        for (const entry of [...this.entries]) {
+            for (const [handlerId, state] of Object.entries(entry.pending)) {
+                const handler = this.handlers.get(entry.event)?.get(handlerId);
+                // Handlers that are not registered (yet) keep their entries until they are
+                if (!handler || state.nextAttemptAt > Date.now()) continue;
+
+                changed = true;
+                try {
+                    await handler(entry.data);
+                    delete entry.pending[handlerId];
+                } catch (error) {
+                    state.attempts++;
+                    if (state.attempts > this.policy.retries) {
+                        delete entry.pending[handlerId];
+                        this.onFailure({
+                            event: entry.event,
+                            handlerId,
+                            data: entry.data,
+                            error: error instanceof Error ? error : new Error(String(error)),
+                            attempts: state.attempts
+                        });
+                    } else {
+                        state.nextAttemptAt = Date.now() + retryDelay(state.attempts - 1, this.policy, error);
+                    }
+                }
+            }
+        }
+
+        this.entries = this.entries.filter(entry => Object.keys(entry.pending).length > 0);
+        return changed;
+    }
+
+    /**
+     * When the next retry is due for a registered handler, or null if nothing is waiting
+     */
+    nextAttemptAt(): number | null {
+        let next: number | null = null;
+        for (const entry of this.entries) {
+            for (const [handlerId, state] of Object.entries(entry.pending)) {
+                if (!this.handlers.get(entry.event)?.has(handlerId)) continue;
+                next = next === null ? state.nextAttemptAt : Math.min(next, state.nextAttemptAt);
+            }
+        }
+        return next;
+    }
+
+    /**
+     * Number of entries still waiting for at least one handler
+     */
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Restore entries persisted before a restart
+     */
+    load(entries: OutboxEntry[]): void {
+        this.entries = entries;
+    }
+
+    /**
+     * Entries to persist
+     */
+    toJSON(): OutboxEntry[] {
+        return this.entries;
+    }
+}
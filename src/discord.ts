@@ -0,0 +1,132 @@
+import axios, { AxiosInstance, AxiosResponse, Method } from "axios";
+import { sleep } from "./http";
+
+// Interface for the Discord REST client options
+export interface DiscordClientOptions {
+    botToken: string;
+    apiBaseUrl?: string; // Discord API base URL (default: https://discord.com/api/v10)
+    maxRetries?: number; // How often a rate-limited request is retried (default: 3)
+}
+
+// Guild member as returned by the Discord API (only the fields we use)
+export interface DiscordGuildMember {
+    user?: { id: string; username?: string };
+    roles: string[];
+}
+
+/**
+ * Small Discord REST client for guild member role management
+ * Respects per-route rate limit headers and retries 429 responses after retry_after
+ */
+export class DiscordClient {
+    private http: AxiosInstance;
+    private maxRetries: number;
+    // Route key -> timestamp until which the bucket is exhausted
+    private bucketResets: Map<string, number> = new Map();
+    // Timestamp until which the global rate limit applies
+    private globalReset: number = 0;
+
+    constructor(options: DiscordClientOptions) {
+        this.maxRetries = options.maxRetries ?? 3;
+        this.http = axios.create({
+            baseURL: (options.apiBaseUrl || 'https://discord.com/api/v10').replace(/\/+$/, ''),
+            headers: {
+                'Authorization': `Bot ${options.botToken}`,
+                'Content-Type': 'application/json'
+            }
+        });
+    }
+
+    /**
+     * Fetch a guild member, or null if they are not in the guild
+     */
+    async getMember(guildId: string, userId: string): Promise<DiscordGuildMember | null> {
+        try {
+            const response = await this.request<DiscordGuildMember>('GET', `/guilds/${guildId}/members/${userId}`, `GET /guilds/${guildId}/members`);
+            return response.data;
+        } catch (error) {
+            if (axios.isAxiosError(error) && error.response?.status === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * List guild members one page at a time (requires the Server Members intent)
+     */
+    async listMembers(guildId: string): Promise<DiscordGuildMember[]> {
+        let members: DiscordGuildMember[] = [];
+        let after = '0';
+
+        while (true) {
+            const response = await this.request<DiscordGuildMember[]>('GET',
+                `/guilds/${guildId}/members?limit=1000&after=${after}`, `GET /guilds/${guildId}/members`);
+            members = members.concat(response.data);
+
+            if (response.data.length < 1000) {
+                return members;
+            }
+            after = response.data[response.data.length - 1].user?.id || after;
+        }
+    }
+
+    /**
+     * Add a role to a guild member
+     */
+    async addMemberRole(guildId: string, userId: string, roleId: string): Promise<void> {
+        await this.request('PUT', `/guilds/${guildId}/members/${userId}/roles/${roleId}`, `PUT /guilds/${guildId}/members/roles`);
+    }
+
+    /**
+     * Remove a role from a guild member
+     */
+    async removeMemberRole(guildId: string, userId: string, roleId: string): Promise<void> {
+        await this.request('DELETE', `/guilds/${guildId}/members/${userId}/roles/${roleId}`, `DELETE /guilds/${guildId}/members/roles`);
+    }
+
+    /**
+     * Perform a request, waiting for exhausted buckets and retrying on 429
+     * @param routeKey Identifies the rate limit bucket the route belongs to
+     */
+    private async request<T = unknown>(method: Method, url: string, routeKey: string): Promise<AxiosResponse<T>> {
+        for (let attempt = 0; ; attempt++) {
+            const waitUntil = Math.max(this.globalReset, this.bucketResets.get(routeKey) || 0);
+            if (waitUntil > Date.now()) {
+                await sleep(waitUntil - Date.now());
+            }
+
+            try {
+                const response = await this.http.request<T>({ method, url });
+                this.updateBucket(routeKey, response.headers);
+                return response;
+            } catch (error) {
+                if (!axios.isAxiosError(error) || error.response?.status !== 429 || attempt >= this.maxRetries) {
+                    throw error;
+                }
+
+                // Rate limited: the body carries retry_after in seconds, with a header fallback
+                const body: any = error.response.data || {};
+                const retryAfter = Number(body.retry_after ?? error.response.headers['retry-after'] ?? 1) * 1000;
+                const resetAt = Date.now() + retryAfter;
+
+                if (body.global || error.response.headers['x-ratelimit-global']) {
+                    this.globalReset = resetAt;
+                } else {
+                    this.bucketResets.set(routeKey, resetAt);
+                }
+            }
+        }
+    }
+
+    /**
+     * Remember when an exhausted bucket resets so the next request waits for it
+     */
+    private updateBucket(routeKey: string, headers: any): void {
+        if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset-after']) {
+            this.bucketResets.set(routeKey, Date.now() + Number(headers['x-ratelimit-reset-after']) * 1000);
+        } else {
+            this.bucketResets.delete(routeKey);
+        }
+    }
+}
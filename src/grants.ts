@@ -0,0 +1,50 @@
+import type { MembershipData, TierData } from "../index";
+
+// A virtual membership granted by hand, keyed by Discord ID
+export interface ManualGrant {
+    discordId: string;
+    tier?: TierData; // Tier the grant stands in for, used by tier-based role rules
+    grantedAt: number;
+    expiresAt?: number; // Timestamp when the grant lapses; unset grants last until revoked
+    note?: string; // Why the grant was made, e.g. "staff" or "giveaway winner"
+}
+
+// Options for granting a membership
+export interface GrantOptions {
+    tier?: TierData;
+    expiresAt?: number | Date;
+    note?: string;
+}
+
+/**
+ * Member ID used for a grant, so grants never collide with Patreon member IDs
+ */
+export function grantMemberId(discordId: string): string {
+    return `manual:${discordId}`;
+}
+
+/**
+ * Present a grant as membership data, so it can be used wherever Patreon memberships are
+ * @param active Whether the grant is in force; lapsed grants are reported as former patrons
+ */
+export function grantToMember(grant: ManualGrant, active: boolean = true): MembershipData {
+    const member: MembershipData = {
+        id: grantMemberId(grant.discordId),
+        status: active ? 'active_patron' : 'former_patron',
+        patronStatus: active ? 'active_patron' : 'former_patron',
+        discordId: grant.discordId,
+        pledgeAmount: grant.tier?.amount || 0,
+        tiers: grant.tier ? [grant.tier] : [],
+        joinedAt: new Date(grant.grantedAt).toISOString(),
+        source: 'manual'
+    };
+
+    if (grant.expiresAt !== undefined) {
+        member.expiresAt = new Date(grant.expiresAt).toISOString();
+    }
+    if (grant.note) {
+        member.note = grant.note;
+    }
+
+    return member;
+}
@@ -0,0 +1,220 @@
+import axios from "axios";
+import * as http from "http";
+
+// Interface for the retry policy of API requests
+export interface RetryOptions {
+    retries?: number; // Retries after the first attempt (default: 3)
+    minDelay?: number; // Base backoff delay in ms (default: 1000)
+    maxDelay?: number; // Upper bound for a single backoff delay in ms (default: 30000)
+}
+
+export const DEFAULT_RETRY: Required<RetryOptions> = {
+    retries: 3,
+    minDelay: 1000,
+    maxDelay: 30000
+};
+
+// Network errors that are worth retrying
+const TRANSIENT_ERROR_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+    'ENOTFOUND',
+    'ERR_NETWORK'
+]);
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether a failed request may succeed when tried again (429, 5xx or a network failure)
+ */
+export function isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+        return false;
+    }
+    if (error.response) {
+        return error.response.status === 429 || error.response.status >= 500;
+    }
+    return !!error.code && TRANSIENT_ERROR_CODES.has(error.code);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(value));
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before the next attempt: Retry-After when the server sent one,
+ * otherwise exponential backoff with full jitter
+ */
+export function retryDelay(attempt: number, policy: Required<RetryOptions>, error: unknown): number {
+    if (axios.isAxiosError(error)) {
+        const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+        if (retryAfter !== null) {
+            return retryAfter;
+        }
+    }
+
+    const ceiling = Math.min(policy.maxDelay, policy.minDelay * Math.pow(2, attempt));
+    return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run a request, retrying transient failures according to the policy
+ * @param request Performs one attempt
+ * @param policy Retry policy
+ * @param deadline Optional timestamp (ms) after which no further attempt is started
+ * @param onRetry Called before waiting for the next attempt
+ */
+export async function withRetry<T>(
+    request: () => Promise<T>,
+    policy: Required<RetryOptions>,
+    deadline?: number,
+    onRetry?: (error: unknown, attempt: number, delay: number) => void
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            if (attempt >= policy.retries || !isRetryable(error)) {
+                throw error;
+            }
+
+            const delay = retryDelay(attempt, policy, error);
+            if (deadline !== undefined && Date.now() + delay >= deadline) {
+                throw error;
+            }
+
+            if (onRetry) {
+                onRetry(error, attempt + 1, delay);
+            }
+            await sleep(delay);
+        }
+    }
+}
+
+/**
+ * RateLimiter - Lets at most `limit` requests start within any `interval`
+ * Share one instance between clients to give them a common budget
+ */
+export class RateLimiter {
+    readonly limit: number;
+    readonly interval: number;
+    private starts: number[] = []; // Start times within the current interval, oldest first
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(limit: number, interval: number = 60000) {
+        if (!(limit > 0)) {
+            throw new Error("The rate limit must allow at least one request");
+        }
+        this.limit = limit;
+        this.interval = interval;
+    }
+
+    /**
+     * Wait until a request may start; callers are served in order
+     */
+    acquire(): Promise<void> {
+        const turn = this.queue.then(() => this.waitForSlot());
+        this.queue = turn;
+        return turn;
+    }
+
+    private async waitForSlot(): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            while (this.starts.length > 0 && this.starts[0] <= now - this.interval) {
+                this.starts.shift();
+            }
+            if (this.starts.length < this.limit) {
+                this.starts.push(now);
+                return;
+            }
+            await sleep(this.starts[0] + this.interval - now);
+        }
+    }
+}
+
+/**
+ * HttpListener - Starts and stops an HTTP server for a request handler
+ * Shared by the webhook, linking, metrics and fake Patreon servers
+ */
+export class HttpListener {
+    private server: http.Server | null = null;
+    private handler: http.RequestListener;
+
+    constructor(handler: http.RequestListener) {
+        this.handler = handler;
+    }
+
+    /**
+     * Whether the server is currently accepting connections
+     */
+    get listening(): boolean {
+        return this.server !== null && this.server.listening;
+    }
+
+    /**
+     * Port the server is bound to, or null while it is not listening
+     */
+    get port(): number | null {
+        const address = this.listening ? this.server!.address() : null;
+        return address && typeof address === 'object' ? address.port : null;
+    }
+
+    /**
+     * Start listening; does nothing if already started
+     * @param port Port to listen on (0 picks a free one)
+     * @param host Interface to bind to (default: all interfaces)
+     */
+    start(port: number, host?: string): Promise<void> {
+        if (this.server) {
+            return Promise.resolve();
+        }
+
+        const server = http.createServer(this.handler);
+        this.server = server;
+
+        return new Promise((resolve, reject) => {
+            // A failed start leaves the listener stopped, so it can be tried again
+            const onError = (error: Error) => {
+                this.server = null;
+                reject(error);
+            };
+            server.once('error', onError);
+            server.listen(port, host, () => {
+                server.off('error', onError);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stop accepting connections
+     */
+    stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+
+        if (!server) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve) => server.close(() => resolve()));
+    }
+}
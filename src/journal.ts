@@ -0,0 +1,155 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import type { TierData } from "../index";
+
+// Snapshot of the parts of a membership that events are about
+export interface MemberState {
+    status?: string;
+    discordId?: string | null;
+    tiers?: TierData[];
+}
+
+// A single recorded event
+export interface JournalEntry {
+    timestamp: number;
+    cycleId: string; // Identifies the check, webhook delivery or timer that produced the event
+    event: string;
+    memberId: string;
+    discordId: string | null;
+    previous: MemberState; // State before the cycle
+    current: MemberState; // State carried by the event
+    data: any; // The emitted payload
+}
+
+// Criteria for querying the journal; every given criterion must match
+export interface JournalQuery {
+    memberId?: string; // Matches the Patreon member ID or the Discord ID
+    from?: number | Date;
+    to?: number | Date;
+    events?: string[];
+}
+
+/**
+ * Append-only storage for emitted events
+ * Implement this to keep the journal in your own database
+ */
+export interface EventJournal {
+    append(entry: JournalEntry): Promise<void>;
+    query(query: JournalQuery): Promise<JournalEntry[]>; // Oldest first
+    // Remove every entry of a member, matched like JournalQuery.memberId; resolves the number removed
+    erase?(memberId: string): Promise<number>;
+}
+
+/**
+ * Check whether an entry matches every criterion of a query
+ */
+export function matchesJournalQuery(entry: JournalEntry, query: JournalQuery): boolean {
+    if (query.memberId !== undefined && entry.memberId !== query.memberId && entry.discordId !== query.memberId) {
+        return false;
+    }
+    if (query.from !== undefined && entry.timestamp < Number(query.from)) {
+        return false;
+    }
+    if (query.to !== undefined && entry.timestamp > Number(query.to)) {
+        return false;
+    }
+    if (query.events !== undefined && !query.events.includes(entry.event)) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Keeps the journal in memory only; nothing survives a restart
+ */
+export class MemoryJournal implements EventJournal {
+    private entries: JournalEntry[] = [];
+
+    async append(entry: JournalEntry): Promise<void> {
+        this.entries.push(entry);
+    }
+
+    async query(query: JournalQuery): Promise<JournalEntry[]> {
+        return this.entries.filter(entry => matchesJournalQuery(entry, query));
+    }
+
+    async erase(memberId: string): Promise<number> {
+        const count = this.entries.length;
+        this.entries = this.entries.filter(entry => !matchesJournalQuery(entry, { memberId }));
+        return count - this.entries.length;
+    }
+}
+
+/**
+ * Keeps the journal in a JSON Lines file, one event per line
+ */
+export class JsonlJournal implements EventJournal {
+    readonly file: string;
+
+    constructor(file: string) {
+        this.file = path.resolve(file);
+    }
+
+    async append(entry: JournalEntry): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.promises.appendFile(this.file, JSON.stringify(entry) + '\n');
+    }
+
+    async query(query: JournalQuery): Promise<JournalEntry[]> {
+        if (!fs.existsSync(this.file)) {
+            return [];
+        }
+
+        const entries: JournalEntry[] = [];
+        const lines = readline.createInterface({
+            input: fs.createReadStream(this.file, 'utf8'),
+            crlfDelay: Infinity
+        });
+
+        for await (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+                const entry = JSON.parse(line) as JournalEntry;
+                if (matchesJournalQuery(entry, query)) {
+                    entries.push(entry);
+                }
+            } catch (error) {
+                // Skip a line that was cut short by a crash
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Rewrite the file without a member's entries; the rename keeps readers from seeing a partial file
+     */
+    async erase(memberId: string): Promise<number> {
+        if (!fs.existsSync(this.file)) {
+            return 0;
+        }
+
+        const lines = (await fs.promises.readFile(this.file, 'utf8')).split('\n').filter(line => line.trim());
+        const kept = lines.filter(line => {
+            try {
+                return !matchesJournalQuery(JSON.parse(line) as JournalEntry, { memberId });
+            } catch (error) {
+                return true;
+            }
+        });
+        if (kept.length === lines.length) {
+            return 0;
+        }
+
+        const tempFile = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+        try {
+            await fs.promises.writeFile(tempFile, kept.map(line => line + '\n').join(''));
+            await fs.promises.rename(tempFile, this.file);
+        } catch (error) {
+            await fs.promises.unlink(tempFile).catch(() => undefined);
+            throw error;
+        }
+        return lines.length - kept.length;
+    }
+}
@@ -0,0 +1,114 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Lock that elects one leader among replicas
+ * Implement this for Redis, a database row or any other shared backend; acquire must be atomic
+ */
+export interface LeaderLock {
+    // Take the lock for owner, or extend it if owner already holds it; resolve whether owner holds it now
+    acquire(owner: string, ttl: number): Promise<boolean>;
+    // Give the lock up if owner holds it
+    release(owner: string): Promise<void>;
+}
+
+// Contents of a lock file
+interface LockRecord {
+    owner: string;
+    expiresAt: number;
+}
+
+/**
+ * Keeps the lock in a file on a volume every replica can reach
+ * Taking over an expired lock is best-effort: two replicas racing for it may both lead
+ * until the next renewal, so prefer a backend with atomic compare-and-set where that matters
+ */
+export class FileLeaderLock implements LeaderLock {
+    readonly file: string;
+
+    constructor(file: string) {
+        this.file = path.resolve(file);
+    }
+
+    async acquire(owner: string, ttl: number): Promise<boolean> {
+        const record: LockRecord = { owner, expiresAt: Date.now() + ttl };
+        if (await this.create(record)) {
+            return true;
+        }
+
+        const current = await this.read();
+        if (current && current.owner === owner) {
+            await this.replace(record);
+            return true;
+        }
+        // An unreadable file may be one another replica is still writing
+        if (current ? current.expiresAt > Date.now() : await this.writtenWithin(ttl)) {
+            return false;
+        }
+
+        // The holder let the lock expire; remove it and race for a fresh one
+        await fs.promises.unlink(this.file).catch((error: NodeJS.ErrnoException) => {
+            if (error.code !== 'ENOENT') throw error;
+        });
+        return this.create(record);
+    }
+
+    async release(owner: string): Promise<void> {
+        const current = await this.read();
+        if (current && current.owner === owner) {
+            await fs.promises.unlink(this.file).catch((error: NodeJS.ErrnoException) => {
+                if (error.code !== 'ENOENT') throw error;
+            });
+        }
+    }
+
+    /**
+     * Create the lock file, failing if it already exists
+     */
+    private async create(record: LockRecord): Promise<boolean> {
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        try {
+            await fs.promises.writeFile(this.file, JSON.stringify(record), { flag: 'wx' });
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Renew a lock we hold; the rename keeps readers from seeing a partial file
+     */
+    private async replace(record: LockRecord): Promise<void> {
+        const tempFile = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+        try {
+            await fs.promises.writeFile(tempFile, JSON.stringify(record));
+            await fs.promises.rename(tempFile, this.file);
+        } catch (error) {
+            await fs.promises.unlink(tempFile).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    private async writtenWithin(ttl: number): Promise<boolean> {
+        try {
+            return (await fs.promises.stat(this.file)).mtimeMs > Date.now() - ttl;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Read the lock file; a missing or unreadable file counts as no lock
+     */
+    private async read(): Promise<LockRecord | null> {
+        try {
+            const record = JSON.parse(await fs.promises.readFile(this.file, 'utf8'));
+            return typeof record?.owner === 'string' && typeof record?.expiresAt === 'number' ? record : null;
+        } catch (error) {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,326 @@
+import axios from "axios";
+import * as crypto from "crypto";
+import * as http from "http";
+import { HttpListener } from "./http";
+import { Logger, silentLogger } from "./logger";
+
+// A Discord account a patron linked themselves through the OAuth flow
+export interface AccountLink {
+    patreonUserId: string; // Patreon user ID, as in the member's patreonUserId
+    discordId: string;
+    linkedAt: number;
+}
+
+// OAuth client and endpoints of one provider
+export interface OAuthProviderOptions {
+    clientId: string;
+    clientSecret: string;
+    authorizeUrl?: string; // Where the user is sent to log in
+    tokenUrl?: string; // Where the authorization code is exchanged
+    userUrl?: string; // Returns the logged-in user
+}
+
+// Interface for the account linking options
+export interface LinkingOptions {
+    publicUrl: string; // Base URL the providers redirect back to, e.g. https://bot.example.com
+    port?: number; // Start a built-in server on this port; otherwise mount handleRequest() yourself
+    host?: string; // Interface for the built-in server
+    basePath?: string; // Route prefix (default: /link)
+    patreon: OAuthProviderOptions;
+    discord: OAuthProviderOptions;
+    successRedirect?: string; // Redirect here once linked instead of showing a confirmation page
+    stateTtl?: number; // How long a user has to complete the flow (default: 10 minutes)
+}
+
+const PATREON_DEFAULTS = {
+    authorizeUrl: 'https://www.patreon.com/oauth2/authorize',
+    tokenUrl: 'https://www.patreon.com/api/oauth2/token',
+    userUrl: 'https://www.patreon.com/api/oauth2/v2/identity',
+    scope: 'identity'
+};
+
+const DISCORD_DEFAULTS = {
+    authorizeUrl: 'https://discord.com/oauth2/authorize',
+    tokenUrl: 'https://discord.com/api/oauth2/token',
+    userUrl: 'https://discord.com/api/users/@me',
+    scope: 'identify'
+};
+
+// Cookie tying a flow to the browser that started it
+const NONCE_COOKIE = 'patreon_link';
+
+/**
+ * LinkServer - "Log in with Patreon", then "Log in with Discord", and the two accounts are linked
+ *
+ * Routes, below basePath:
+ * - GET /                  starts the flow
+ * - GET /patreon/callback  Patreon redirects back here
+ * - GET /discord/callback  Discord redirects back here
+ */
+export class LinkServer {
+    private listener: HttpListener;
+    private options: LinkingOptions;
+    private basePath: string;
+    private onLink: (patreonUserId: string, discordId: string) => Promise<void>;
+    private logger: Logger;
+    // OAuth state -> the step it belongs to and the nonce of the browser that started it, with the Patreon user once known
+    private states: Map<string, { step: 'patreon' | 'discord'; nonce: string; patreonUserId?: string; expiresAt: number }> = new Map();
+
+    constructor(options: LinkingOptions, onLink: (patreonUserId: string, discordId: string) => Promise<void>, logger: Logger = silentLogger) {
+        this.options = options;
+        this.basePath = (options.basePath || '/link').replace(/\/+$/, '');
+        this.onLink = onLink;
+        this.logger = logger;
+        this.listener = new HttpListener((req, res) => this.handleRequest(req, res));
+    }
+
+    /**
+     * Whether the built-in server is currently accepting connections
+     */
+    get listening(): boolean {
+        return this.listener.listening;
+    }
+
+    /**
+     * URL to send users to, e.g. from a bot command
+     */
+    get startUrl(): string {
+        return `${this.options.publicUrl.replace(/\/+$/, '')}${this.basePath}`;
+    }
+
+    /**
+     * Start the built-in server, if a port is configured
+     */
+    start(): Promise<void> {
+        if (this.options.port === undefined) {
+            return Promise.resolve();
+        }
+        return this.listener.start(this.options.port, this.options.host);
+    }
+
+    /**
+     * Stop the built-in server
+     */
+    stop(): Promise<void> {
+        return this.listener.stop();
+    }
+
+    /**
+     * Handle a request to one of the linking routes; other paths get a 404
+     * Use this to mount the flow in an existing HTTP server
+     */
+    handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const route = url.pathname.replace(/\/+$/, '');
+
+        if (route !== this.basePath && !route.startsWith(`${this.basePath}/`)) {
+            res.writeHead(404).end();
+            return;
+        }
+        if (req.method !== 'GET') {
+            res.writeHead(405, { 'Allow': 'GET' }).end();
+            return;
+        }
+
+        let step: Promise<void>;
+        switch (route) {
+            case this.basePath:
+                this.startFlow(res);
+                return;
+            case `${this.basePath}/patreon/callback`:
+                step = this.onPatreonCallback(url, req, res);
+                break;
+            case `${this.basePath}/discord/callback`:
+                step = this.onDiscordCallback(url, req, res);
+                break;
+            default:
+                res.writeHead(404).end();
+                return;
+        }
+
+        step.catch(error => {
+            this.logger.warn("Account linking failed", { error });
+            this.page(res, 502, "Linking failed", "Something went wrong while talking to Patreon or Discord. Please try again.");
+        });
+    }
+
+    /**
+     * Send the browser to Patreon, with a cookie only this browser holds bound to the state
+     * so a callback carrying the state can't be replayed from another browser
+     */
+    private startFlow(res: http.ServerResponse): void {
+        const nonce = crypto.randomBytes(24).toString('hex');
+        const ttl = this.options.stateTtl || 600000;
+        const cookie = [
+            `${NONCE_COOKIE}=${nonce}`,
+            `Path=${this.basePath || '/'}`,
+            `Max-Age=${Math.ceil(ttl / 1000)}`,
+            'HttpOnly',
+            'SameSite=Lax'
+        ];
+        if (this.options.publicUrl.startsWith('https:')) {
+            cookie.push('Secure');
+        }
+        res.setHeader('Set-Cookie', cookie.join('; '));
+        this.redirect(res, this.authorizeUrl('patreon', this.createState('patreon', nonce)));
+    }
+
+    private async onPatreonCallback(url: URL, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const state = this.verifyCallback(url, 'patreon', req, res);
+        if (state === null) {
+            return;
+        }
+
+        const accessToken = await this.exchangeCode('patreon', state.code);
+        const identity = await axios.get(this.provider('patreon').userUrl, {
+            headers: { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' },
+            timeout: 10000
+        });
+        const patreonUserId = identity.data?.data?.id;
+        if (!patreonUserId) {
+            throw new Error("Patreon identity response did not contain a user ID");
+        }
+
+        this.redirect(res, this.authorizeUrl('discord', this.createState('discord', state.nonce, String(patreonUserId))));
+    }
+
+    private async onDiscordCallback(url: URL, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const state = this.verifyCallback(url, 'discord', req, res);
+        if (state === null) {
+            return;
+        }
+
+        const accessToken = await this.exchangeCode('discord', state.code);
+        const user = await axios.get(this.provider('discord').userUrl, {
+            headers: { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' },
+            timeout: 10000
+        });
+        const discordId = user.data?.id;
+        if (!discordId) {
+            throw new Error("Discord user response did not contain a user ID");
+        }
+
+        await this.onLink(state.patreonUserId!, String(discordId));
+
+        if (this.options.successRedirect) {
+            this.redirect(res, this.options.successRedirect);
+        } else {
+            this.page(res, 200, "Accounts linked", "Your Patreon and Discord accounts are now linked. You can close this page.");
+        }
+    }
+
+    /**
+     * Check a provider callback and consume its state
+     * @returns The state with the authorization code, or null once an error page was sent
+     */
+    private verifyCallback(url: URL, step: 'patreon' | 'discord', req: http.IncomingMessage,
+        res: http.ServerResponse): { nonce: string; patreonUserId?: string; code: string } | null {
+        const key = url.searchParams.get('state') || '';
+        const state = this.states.get(key);
+        this.states.delete(key);
+
+        if (!state || state.step !== step || state.expiresAt < Date.now()) {
+            this.page(res, 400, "Link expired", "This link has expired or was already used. Please start again.");
+            return null;
+        }
+        if (!this.sameNonce(this.cookieNonce(req), state.nonce)) {
+            this.page(res, 400, "Link not recognized", "This link was started in another browser. Please start again here.");
+            return null;
+        }
+        const code = url.searchParams.get('code');
+        if (url.searchParams.has('error') || !code) {
+            this.page(res, 400, "Linking canceled", "Access was not granted, so nothing was linked.");
+            return null;
+        }
+        return { nonce: state.nonce, patreonUserId: state.patreonUserId, code };
+    }
+
+    /**
+     * Nonce cookie sent with a request, if any
+     */
+    private cookieNonce(req: http.IncomingMessage): string | null {
+        for (const pair of (req.headers.cookie || '').split(';')) {
+            const [name, ...value] = pair.trim().split('=');
+            if (name === NONCE_COOKIE) {
+                return value.join('=');
+            }
+        }
+        return null;
+    }
+
+    private sameNonce(cookie: string | null, nonce: string): boolean {
+        return cookie !== null && cookie.length === nonce.length &&
+            crypto.timingSafeEqual(Buffer.from(cookie), Buffer.from(nonce));
+    }
+
+    private createState(step: 'patreon' | 'discord', nonce: string, patreonUserId?: string): string {
+        // Drop abandoned flows so the map can't grow without bound
+        const now = Date.now();
+        for (const [key, state] of this.states) {
+            if (state.expiresAt < now) {
+                this.states.delete(key);
+            }
+        }
+
+        const key = crypto.randomBytes(24).toString('hex');
+        this.states.set(key, { step, nonce, patreonUserId, expiresAt: now + (this.options.stateTtl || 600000) });
+        return key;
+    }
+
+    private provider(step: 'patreon' | 'discord'): Required<OAuthProviderOptions> & { scope: string } {
+        return step === 'patreon' ?
+            { ...PATREON_DEFAULTS, ...this.options.patreon } : { ...DISCORD_DEFAULTS, ...this.options.discord };
+    }
+
+    private redirectUri(step: 'patreon' | 'discord'): string {
+        return `${this.startUrl}/${step}/callback`;
+    }
+
+    private authorizeUrl(step: 'patreon' | 'discord', state: string): string {
+        const provider = this.provider(step);
+        const url = new URL(provider.authorizeUrl);
+        url.searchParams.set('response_type', 'code');
+        url.searchParams.set('client_id', provider.clientId);
+        url.searchParams.set('redirect_uri', this.redirectUri(step));
+        url.searchParams.set('scope', provider.scope);
+        url.searchParams.set('state', state);
+        return url.toString();
+    }
+
+    /**
+     * Exchange an authorization code for the user's access token
+     */
+    private async exchangeCode(step: 'patreon' | 'discord', code: string): Promise<string> {
+        const provider = this.provider(step);
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: this.redirectUri(step),
+            client_id: provider.clientId,
+            client_secret: provider.clientSecret
+        });
+
+        const response = await axios.post(provider.tokenUrl, body.toString(), {
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'Accept': 'application/json'
+            },
+            timeout: 10000
+        });
+
+        if (!response.data?.access_token) {
+            throw new Error(`${step === 'patreon' ? 'Patreon' : 'Discord'} token response did not contain an access token`);
+        }
+        return response.data.access_token;
+    }
+
+    private redirect(res: http.ServerResponse, location: string): void {
+        res.writeHead(302, { 'Location': location }).end();
+    }
+
+    private page(res: http.ServerResponse, status: number, title: string, message: string): void {
+        res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' })
+            .end(`<!doctype html><html><head><meta charset="utf-8"><title>${title}</title></head>` +
+                `<body><h1>${title}</h1><p>${message}</p></body></html>`);
+    }
+}
@@ -0,0 +1,128 @@
+// Structured context attached to a log line, e.g. member ID, event and cycle ID
+export type LogContext = Record<string, unknown>;
+
+// Minimum level that is logged; 'silent' logs nothing
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Logger interface accepted by the logger option
+ * Adapt pino, winston or any other logger by implementing these four methods
+ */
+export interface Logger {
+    debug(message: string, context?: LogContext): void;
+    info(message: string, context?: LogContext): void;
+    warn(message: string, context?: LogContext): void;
+    error(message: string, context?: LogContext): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+// Keys whose values are never logged
+const SECRET_KEY = /token|secret|password|authorization|signature/i;
+const EMAIL = /[^\s@"'<>(),;:]+@[^\s@"'<>(),;:]+\.[a-z]{2,}/gi;
+const BEARER = /Bearer\s+[^\s"',]+/gi;
+
+const MAX_DEPTH = 5;
+
+/**
+ * Logger that discards everything
+ */
+export const silentLogger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined
+};
+
+/**
+ * Logger that writes to the console, with the context as JSON
+ */
+export const consoleLogger: Logger = {
+    debug: (message, context) => console.debug(formatLogLine(message, context)),
+    info: (message, context) => console.info(formatLogLine(message, context)),
+    warn: (message, context) => console.warn(formatLogLine(message, context)),
+    error: (message, context) => console.error(formatLogLine(message, context))
+};
+
+/**
+ * Render a message and its context as a single line
+ */
+export function formatLogLine(message: string, context?: LogContext): string {
+    return context && Object.keys(context).length > 0 ? `${message} ${JSON.stringify(context)}` : message;
+}
+
+/**
+ * Remove emails, bearer tokens and the given secret values from a string
+ */
+export function redactString(value: string, secrets: string[] = []): string {
+    let result = value.replace(BEARER, 'Bearer [REDACTED]').replace(EMAIL, '[email]');
+    for (const secret of secrets) {
+        if (secret) {
+            result = result.split(secret).join('[REDACTED]');
+        }
+    }
+    return result;
+}
+
+/**
+ * Make a value safe to log: secrets and emails are masked, errors reduced to their message and status
+ */
+export function redact(value: unknown, secrets: string[] = [], depth: number = 0): unknown {
+    if (typeof value === 'string') {
+        return redactString(value, secrets);
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (depth >= MAX_DEPTH) {
+        return '[truncated]';
+    }
+
+    if (value instanceof Error) {
+        // Errors from axios carry the request config, headers included; keep only what helps
+        const response = (value as any).response;
+        return {
+            name: value.name,
+            message: redactString(value.message, secrets),
+            ...(response ? { status: response.status, data: redact(response.data, secrets, depth + 1) } : {}),
+            ...((value as any).code ? { code: (value as any).code } : {})
+        };
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, secrets, depth + 1));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        if (SECRET_KEY.test(key)) {
+            result[key] = '[REDACTED]';
+        } else if (key === 'email' && typeof item === 'string') {
+            result[key] = '[email]';
+        } else {
+            result[key] = redact(item, secrets, depth + 1);
+        }
+    }
+    return result;
+}
+
+/**
+ * Wrap a logger so it only receives lines at or above the level, with everything redacted
+ * @param secrets Returns the secret values to mask, e.g. the current access token
+ */
+export function createLogger(logger: Logger, level: LogLevel, secrets: () => string[] = () => []): Logger {
+    const threshold = LEVELS[level];
+
+    const method = (name: Exclude<LogLevel, 'silent'>) => (message: string, context?: LogContext) => {
+        if (LEVELS[name] < threshold) {
+            return;
+        }
+        const values = secrets();
+        try {
+            logger[name](redactString(message, values), context ? redact(context, values) as LogContext : undefined);
+        } catch (error) {
+            // A failing logger must never break monitoring
+        }
+    };
+
+    return { debug: method('debug'), info: method('info'), warn: method('warn'), error: method('error') };
+}
@@ -0,0 +1,118 @@
+import * as http from "http";
+import { HttpListener } from "./http";
+
+// Health and activity of a PatreonEvents instance
+export interface WatcherStatus {
+    running: boolean; // Between initialize() and stop()
+    healthy: boolean; // The last successful check is recent enough (see healthMaxAge)
+    leader: boolean; // Polls and emits: holds the leader lock, or none is configured
+    startedAt: number | null;
+    lastSuccessAt: number | null; // When the last check completed
+    lastFailureAt: number | null; // When the last check failed
+    lastError: string | null; // Message of the last failure, redacted
+    consecutiveFailures: number;
+    lastCycleDuration: number | null; // Duration of the last check (ms), failed or not
+    lastPageCount: number | null; // Pages fetched for the last roster
+    membersByStatus: Record<string, number>;
+    eventsEmitted: Record<string, number>; // Membership events emitted since startup, by event
+}
+
+// Interface for the metrics server options
+export interface MetricsServerOptions {
+    port: number;
+    host?: string;
+}
+
+/**
+ * Render a status in the Prometheus text exposition format
+ */
+export function renderPrometheus(status: WatcherStatus): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string, samples: [Record<string, string>, number | null][]) => {
+        lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+        for (const [labels, value] of samples) {
+            if (value === null) continue;
+            const rendered = Object.entries(labels).map(([key, label]) => `${key}="${escapeLabel(label)}"`).join(',');
+            lines.push(`${name}${rendered ? `{${rendered}}` : ''} ${value}`);
+        }
+    };
+    const seconds = (timestamp: number | null) => timestamp === null ? null : timestamp / 1000;
+
+    metric('patreon_up', 'gauge', 'Whether the last successful check is recent enough', [[{}, status.healthy ? 1 : 0]]);
+    metric('patreon_leader', 'gauge', 'Whether this replica polls and emits', [[{}, status.leader ? 1 : 0]]);
+    metric('patreon_last_success_timestamp_seconds', 'gauge', 'When the last check completed', [[{}, seconds(status.lastSuccessAt)]]);
+    metric('patreon_last_failure_timestamp_seconds', 'gauge', 'When the last check failed', [[{}, seconds(status.lastFailureAt)]]);
+    metric('patreon_consecutive_failures', 'gauge', 'Checks failed in a row', [[{}, status.consecutiveFailures]]);
+    metric('patreon_cycle_duration_seconds', 'gauge', 'Duration of the last check', [[{}, seconds(status.lastCycleDuration)]]);
+    metric('patreon_pages_fetched', 'gauge', 'Pages fetched for the last roster', [[{}, status.lastPageCount]]);
+    metric('patreon_members', 'gauge', 'Members by patron status',
+        Object.entries(status.membersByStatus).map(([label, count]) => [{ status: label }, count]));
+    metric('patreon_events_emitted_total', 'counter', 'Membership events emitted since startup',
+        Object.entries(status.eventsEmitted).map(([label, count]) => [{ event: label }, count]));
+
+    return lines.join('\n') + '\n';
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * MetricsServer - Serves /metrics for Prometheus and /healthz for liveness probes
+ * /healthz answers 200 while the status is healthy and 503 otherwise
+ */
+export class MetricsServer {
+    private listener: HttpListener;
+    private options: MetricsServerOptions;
+    private getStatus: () => WatcherStatus;
+
+    constructor(options: MetricsServerOptions, getStatus: () => WatcherStatus) {
+        this.options = options;
+        this.getStatus = getStatus;
+        this.listener = new HttpListener((req, res) => this.onRequest(req, res));
+    }
+
+    /**
+     * Whether the server is currently accepting connections
+     */
+    get listening(): boolean {
+        return this.listener.listening;
+    }
+
+    /**
+     * Start listening on the configured port
+     */
+    start(): Promise<void> {
+        return this.listener.start(this.options.port, this.options.host);
+    }
+
+    /**
+     * Stop accepting connections
+     */
+    stop(): Promise<void> {
+        return this.listener.stop();
+    }
+
+    private onRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = (req.url || '').split('?')[0];
+
+        if (req.method !== 'GET' && req.method !== 'HEAD') {
+            res.writeHead(405, { 'Allow': 'GET, HEAD' }).end();
+            return;
+        }
+
+        const status = this.getStatus();
+        if (url === '/metrics') {
+            res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }).end(renderPrometheus(status));
+        } else if (url === '/healthz') {
+            res.writeHead(status.healthy ? 200 : 503, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+                status: status.healthy ? 'ok' : 'unhealthy',
+                lastSuccessAt: status.lastSuccessAt,
+                consecutiveFailures: status.consecutiveFailures,
+                lastError: status.lastError
+            }));
+        } else {
+            res.writeHead(404).end();
+        }
+    }
+}
@@ -0,0 +1,59 @@
+import type { MembershipData } from "../index";
+
+// Milestones to celebrate; each is reached at most once per member
+export interface MilestoneOptions {
+    months?: number[]; // Months of continuous support, counted from joinedAt, e.g. [1, 6, 12]
+    lifetimeAmounts?: number[]; // Lifetime support to the campaign in dollars, e.g. [100, 500]
+}
+
+// A milestone a member has reached
+export interface Milestone {
+    type: 'months' | 'lifetime';
+    threshold: number; // Months, or dollars of lifetime support
+}
+
+/**
+ * Key a milestone is remembered under in the cache, e.g. "months:12"
+ */
+export function milestoneKey(milestone: Milestone): string {
+    return `${milestone.type}:${milestone.threshold}`;
+}
+
+/**
+ * Whole calendar months between two dates
+ */
+export function monthsBetween(start: Date, end: Date): number {
+    const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+    // The current month only counts once its day of the month is reached
+    const startInMonth = start.getTime() - Date.UTC(start.getUTCFullYear(), start.getUTCMonth());
+    const endInMonth = end.getTime() - Date.UTC(end.getUTCFullYear(), end.getUTCMonth());
+    return Math.max(0, endInMonth < startInMonth ? months - 1 : months);
+}
+
+/**
+ * Every configured milestone an active patron has reached, smallest first
+ */
+export function reachedMilestones(member: MembershipData, options: MilestoneOptions, now: number = Date.now()): Milestone[] {
+    if (member.status !== 'active_patron') {
+        return [];
+    }
+
+    const reached: Milestone[] = [];
+    const joinedAt = member.joinedAt ? new Date(member.joinedAt) : null;
+    if (joinedAt && !isNaN(joinedAt.getTime())) {
+        const months = monthsBetween(joinedAt, new Date(now));
+        for (const threshold of [...(options.months || [])].sort((a, b) => a - b)) {
+            if (months >= threshold) {
+                reached.push({ type: 'months', threshold });
+            }
+        }
+    }
+    if (member.lifetimeSupport !== undefined) {
+        for (const threshold of [...(options.lifetimeAmounts || [])].sort((a, b) => a - b)) {
+            if (member.lifetimeSupport >= threshold) {
+                reached.push({ type: 'lifetime', threshold });
+            }
+        }
+    }
+    return reached;
+}
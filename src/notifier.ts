@@ -0,0 +1,292 @@
+import axios from "axios";
+import { sleep } from "./http";
+import { Logger, silentLogger } from "./logger";
+import type { PatreonEvents, PatreonEventMap, MembershipData, TierChangeData, MilestoneData } from "../index";
+
+// Events that carry a member and can be posted
+export type NotifierEvent = Exclude<keyof PatreonEventMap,
+    'anomalyDetected' | 'deliveryFailed' | 'snapshot' | 'tokenRefreshed' | 'authFailed' |
+    'leadershipAcquired' | 'leadershipLost' | 'error' | 'ready'>;
+
+// Embed template; text may use placeholders such as {name}, {tier}, {pledge} and {discord}
+export interface EmbedTemplate {
+    title?: string;
+    description?: string;
+    color?: number;
+    fields?: { name: string; value: string; inline?: boolean }[]; // Fields that render empty are left out
+    footer?: string;
+}
+
+// Posts some events to one or more Discord webhooks
+export interface NotifierRoute {
+    events: NotifierEvent[];
+    webhookUrls: string[];
+    templates?: Partial<Record<NotifierEvent, EmbedTemplate>>; // Override the notifier's templates for this route
+    fields?: EmbedTemplate['fields']; // Fields added to every embed of this route, e.g. the email on a staff channel
+    exclude?: string[]; // Placeholders to leave empty on this route, e.g. ['name'] for a public channel
+}
+
+// Interface for the notifier options
+export interface NotifierOptions {
+    routes: NotifierRoute[];
+    templates?: Partial<Record<NotifierEvent, EmbedTemplate>>; // Override the default template per event
+    exclude?: string[]; // Placeholders to leave empty on every route
+    username?: string; // Webhook display name
+    avatarUrl?: string;
+    digestWindow?: number; // How long to collect events per webhook before posting (default: 2 seconds)
+    digestThreshold?: number; // More events than this in one window are posted as a single digest (default: 5)
+    digestLine?: string; // Template for one line of a digest (default: '**{event}** {name} {discord}')
+}
+
+// Discord embed as sent to the webhook
+export interface DiscordEmbed {
+    title?: string;
+    description?: string;
+    color?: number;
+    fields?: { name: string; value: string; inline?: boolean }[];
+    footer?: { text: string };
+    timestamp?: string;
+}
+
+const GREEN = 0x2ecc71;
+const RED = 0xe74c3c;
+const ORANGE = 0xe67e22;
+const BLUE = 0x3498db;
+
+// Personal data such as the email is left out; routes add it with their own fields
+const DEFAULT_FIELDS = [
+    { name: 'Tier', value: '{tier}', inline: true },
+    { name: 'Pledge', value: '{pledge}', inline: true }
+];
+
+export const DEFAULT_TEMPLATES: Record<NotifierEvent, EmbedTemplate> = {
+    subscribed: { title: 'New patron', description: '{name} {discord}', color: GREEN, fields: DEFAULT_FIELDS },
+    reactivated: { title: 'Patron reactivated', description: '{name} {discord}', color: GREEN, fields: DEFAULT_FIELDS },
+    recovered: { title: 'Payment recovered', description: '{name} {discord}', color: GREEN, fields: DEFAULT_FIELDS },
+    upgraded: { title: 'Patron upgraded', description: '{name} {discord}: {previousTier} → {tier}', color: GREEN, fields: DEFAULT_FIELDS },
+    canceled: { title: 'Patron canceled', description: '{name} {discord}', color: RED, fields: DEFAULT_FIELDS },
+    expired: { title: 'Membership expired', description: '{name} {discord}', color: RED, fields: DEFAULT_FIELDS },
+    graceExpired: { title: 'Grace period ended', description: '{name} {discord} is still declined', color: RED, fields: DEFAULT_FIELDS },
+    declined: { title: 'Payment declined', description: '{name} {discord}', color: ORANGE, fields: DEFAULT_FIELDS },
+    gracePeriodStarted: { title: 'Grace period started', description: '{name} {discord}', color: ORANGE, fields: DEFAULT_FIELDS },
+    expiringSoon: { title: 'Membership expiring soon', description: '{name} {discord} until {entitledUntil}', color: ORANGE, fields: DEFAULT_FIELDS },
+    downgraded: { title: 'Patron downgraded', description: '{name} {discord}: {previousTier} → {tier}', color: ORANGE, fields: DEFAULT_FIELDS },
+    tierChanged: { title: 'Tier changed', description: '{name} {discord}: {previousTier} → {tier}', color: BLUE, fields: DEFAULT_FIELDS },
+    connected: { title: 'Discord connected', description: '{name} linked {discord}', color: BLUE, fields: DEFAULT_FIELDS },
+    disconnected: { title: 'Discord disconnected', description: '{name} unlinked {discord}', color: BLUE, fields: DEFAULT_FIELDS },
+    milestone: { title: 'Milestone reached', description: '{name} {discord}: {milestone}', color: GREEN, fields: DEFAULT_FIELDS }
+};
+
+// Discord accepts at most 10 embeds per message and 4096 characters per description
+const MAX_EMBEDS = 10;
+const MAX_DESCRIPTION = 4096;
+
+/**
+ * Fill placeholders from a set of values; unknown placeholders render empty
+ */
+export function renderTemplate(text: string, values: Record<string, string>): string {
+    return text.replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? '').replace(/[ \t]{2,}/g, ' ').trim();
+}
+
+/**
+ * DiscordNotifier - Posts membership events to Discord webhooks as embeds
+ * Events are collected per webhook for a short window; bursts are posted as one digest
+ */
+export class DiscordNotifier {
+    private options: NotifierOptions;
+    private logger: Logger;
+    private onError: (error: Error) => void = () => undefined;
+    // Webhook URL -> notifications waiting for the window to close
+    private queues: Map<string, { embed: DiscordEmbed; line: string }[]> = new Map();
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    // Webhook URL -> posts in progress, so messages to one webhook stay in order
+    private sending: Map<string, Promise<void>> = new Map();
+
+    constructor(options: NotifierOptions, logger: Logger = silentLogger) {
+        this.options = options;
+        this.logger = logger;
+    }
+
+    /**
+     * Post events as they are emitted
+     * Failed posts are emitted as 'error' events on the PatreonEvents instance
+     */
+    attach(patreon: PatreonEvents): void {
+        this.onError = (error) => patreon.emit('error', error);
+
+        const events = new Set(this.options.routes.flatMap(route => route.events));
+        for (const event of events) {
+            patreon.on(event, ((member: MembershipData) => this.notify(event, member)) as PatreonEventMap[typeof event]);
+        }
+    }
+
+    /**
+     * Queue an event for every route that posts it
+     */
+    notify(event: NotifierEvent, member: MembershipData): void {
+        for (const route of this.options.routes) {
+            if (!route.events.includes(event)) continue;
+
+            const values = this.values(event, member, route);
+            const embed = this.render(event, values, route);
+            const line = renderTemplate(this.options.digestLine || '**{event}** {name} {discord}', values);
+
+            for (const url of route.webhookUrls) {
+                const queue = this.queues.get(url) || [];
+                queue.push({ embed, line });
+                this.queues.set(url, queue);
+
+                if (!this.timers.has(url)) {
+                    this.timers.set(url, setTimeout(() => this.flushWebhook(url), this.options.digestWindow ?? 2000));
+                }
+            }
+        }
+    }
+
+    /**
+     * Post everything still queued right away
+     */
+    async flush(): Promise<void> {
+        const urls = new Set([...this.queues.keys(), ...this.sending.keys()]);
+        await Promise.all(Array.from(urls).map(url => this.flushWebhook(url)));
+    }
+
+    /**
+     * Build the placeholder values for an event, leaving excluded ones empty
+     */
+    private values(event: NotifierEvent, member: MembershipData, route: NotifierRoute): Record<string, string> {
+        const tierTitles = (tiers?: { id: string; title?: string }[]) => (tiers || []).map(tier => tier.title || tier.id);
+        const previousTiers = (member as TierChangeData).previousTiers;
+        const milestone = (member as MilestoneData).milestone;
+
+        const values: Record<string, string> = {
+            event,
+            memberId: member.id,
+            name: member.fullName || member.id,
+            email: member.email || '',
+            status: member.status,
+            discordId: member.discordId || '',
+            discord: member.discordId ? `<@${member.discordId}>` : '',
+            tier: tierTitles(member.tiers)[0] || '',
+            tiers: tierTitles(member.tiers).join(', '),
+            previousTier: previousTiers ? tierTitles(previousTiers).join(', ') || 'none' : '',
+            pledge: member.pledgeAmount ? `$${member.pledgeAmount.toFixed(2)}` : '',
+            entitledUntil: member.entitledUntil || '',
+            lifetime: member.lifetimeSupport !== undefined ? `$${member.lifetimeSupport.toFixed(2)}` : '',
+            milestone: !milestone ? '' : milestone.type === 'months' ?
+                `${milestone.threshold} month${milestone.threshold === 1 ? '' : 's'} of support` : `$${milestone.threshold} lifetime support`,
+            source: member.source || 'patreon'
+        };
+
+        for (const key of [...(this.options.exclude || []), ...(route.exclude || [])]) {
+            values[key] = '';
+            // The mention reveals the Discord ID as much as the ID itself
+            if (key === 'discordId') values.discord = '';
+            if (key === 'name') values.name = member.id;
+        }
+        return values;
+    }
+
+    private render(event: NotifierEvent, values: Record<string, string>, route: NotifierRoute): DiscordEmbed {
+        const template = route.templates?.[event] || this.options.templates?.[event] || DEFAULT_TEMPLATES[event];
+
+        const fields = [...(template.fields || []), ...(route.fields || [])]
+            .map(field => ({ name: renderTemplate(field.name, values), value: renderTemplate(field.value, values), inline: field.inline }))
+            .filter(field => field.name && field.value);
+
+        return {
+            title: template.title ? renderTemplate(template.title, values) : undefined,
+            description: template.description ? renderTemplate(template.description, values) : undefined,
+            color: template.color,
+            fields: fields.length > 0 ? fields : undefined,
+            footer: template.footer ? { text: renderTemplate(template.footer, values) } : undefined,
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    /**
+     * Post the queue of one webhook, as separate embeds or as a digest
+     */
+    private flushWebhook(url: string): Promise<void> {
+        const timer = this.timers.get(url);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(url);
+        }
+
+        const queue = this.queues.get(url) || [];
+        this.queues.delete(url);
+
+        const previous = this.sending.get(url) || Promise.resolve();
+        if (queue.length === 0) {
+            return previous;
+        }
+
+        const messages: DiscordEmbed[][] = [];
+        if (queue.length > (this.options.digestThreshold ?? 5)) {
+            messages.push([this.digest(queue.map(item => item.line))]);
+        } else {
+            for (let i = 0; i < queue.length; i += MAX_EMBEDS) {
+                messages.push(queue.slice(i, i + MAX_EMBEDS).map(item => item.embed));
+            }
+        }
+
+        const sending = previous.then(async () => {
+            for (const embeds of messages) {
+                try {
+                    await this.post(url, embeds);
+                } catch (error) {
+                    this.logger.warn("Failed to post Discord notification", { error, embeds: embeds.length });
+                    this.onError(error instanceof Error ? error : new Error(String(error)));
+                }
+            }
+        }).finally(() => {
+            if (this.sending.get(url) === sending) {
+                this.sending.delete(url);
+            }
+        });
+        this.sending.set(url, sending);
+        return sending;
+    }
+
+    private digest(lines: string[]): DiscordEmbed {
+        let description = '';
+        let included = 0;
+        for (const line of lines) {
+            const more = `\n…and ${lines.length - included} more`;
+            if (description.length + line.length + 1 + more.length > MAX_DESCRIPTION) {
+                description += more;
+                break;
+            }
+            description += (included > 0 ? '\n' : '') + line;
+            included++;
+        }
+
+        return {
+            title: `${lines.length} membership updates`,
+            description,
+            color: BLUE,
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    /**
+     * Post a message, waiting out Discord's retry_after on 429 responses
+     */
+    private async post(url: string, embeds: DiscordEmbed[], maxRetries: number = 3): Promise<void> {
+        const body = { username: this.options.username, avatar_url: this.options.avatarUrl, embeds };
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                await axios.post(url, body, { timeout: 10000 });
+                return;
+            } catch (error) {
+                if (!axios.isAxiosError(error) || error.response?.status !== 429 || attempt >= maxRetries) {
+                    throw error;
+                }
+                const retryAfter = Number((error.response.data as any)?.retry_after ?? error.response.headers['retry-after'] ?? 1);
+                await sleep(retryAfter * 1000);
+            }
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import * as crypto from "crypto";
+import type { MembershipData } from "../index";
+
+// Personal data a membership may carry
+export type PiiField = 'email' | 'fullName' | 'relationships';
+
+// Interface for the privacy options
+export interface PrivacyOptions {
+    omit?: PiiField[]; // Fields left out of events, lookups and the cache
+    hash?: Exclude<PiiField, 'relationships'>[]; // Fields replaced by a keyed hash, so they still compare and look up
+    hashSecret?: string; // Key for hashed fields; changing it makes every stored hash stale (required with hash)
+    retention?: number; // Forget former patrons this long (ms) after they left (default: keep them)
+}
+
+// Marks a hashed value, so it is never hashed twice
+const HASH_PREFIX = 'sha256:';
+
+/**
+ * Keyed hash of a personal value, e.g. to look up a hashed email
+ */
+export function hashPii(value: string, secret: string): string {
+    return value.startsWith(HASH_PREFIX) ?
+        value : HASH_PREFIX + crypto.createHmac('sha256', secret).update(value).digest('hex');
+}
+
+/**
+ * Normalize an email the way it is stored, so lookups match
+ */
+export function normalizeEmail(email: string, options: PrivacyOptions): string {
+    const normalized = email.trim().toLowerCase();
+    return options.hash?.includes('email') ? hashPii(normalized, options.hashSecret!) : normalized;
+}
+
+/**
+ * Copy of a membership with personal data omitted or hashed as configured
+ * Applying it again to its own output changes nothing
+ */
+export function applyPrivacy<T extends MembershipData>(member: T, options: PrivacyOptions): T {
+    const result = { ...member };
+    for (const field of options.omit || []) {
+        delete result[field];
+    }
+    if (result.email !== undefined && options.hash?.includes('email')) {
+        result.email = normalizeEmail(result.email, options);
+    }
+    if (result.fullName !== undefined && options.hash?.includes('fullName')) {
+        result.fullName = hashPii(result.fullName, options.hashSecret!);
+    }
+    return result;
+}
@@ -0,0 +1,80 @@
+import type { MembershipData, TierData } from "../index";
+
+// Criteria for listing members; every given criterion must match
+export interface MemberFilter {
+    status?: string | string[]; // One or more patron statuses
+    tierId?: string; // Entitled to this tier
+    minPledge?: number; // Pledge amount (in dollars) of at least this
+    hasDiscord?: boolean; // Whether a Discord account is linked
+}
+
+// Aggregate figures for the roster
+export interface MemberStats {
+    total: number;
+    byStatus: Record<string, number>;
+    activePatrons: number;
+    monthlyRevenue: number; // Sum of active patrons' pledge amounts, in dollars
+    // Active patrons and revenue per tier; each patron counts towards their highest tier only
+    revenueByTier: Record<string, { title?: string; patrons: number; revenue: number }>;
+}
+
+/**
+ * Check whether a member matches every criterion of a filter
+ */
+export function matchesFilter(member: MembershipData, filter: MemberFilter): boolean {
+    if (filter.status !== undefined) {
+        const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+        if (!statuses.includes(member.status)) return false;
+    }
+    if (filter.tierId !== undefined && !(member.tiers || []).some(tier => tier.id === filter.tierId)) {
+        return false;
+    }
+    if (filter.minPledge !== undefined && (member.pledgeAmount || 0) < filter.minPledge) {
+        return false;
+    }
+    if (filter.hasDiscord !== undefined && !!member.discordId !== filter.hasDiscord) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Compute aggregate figures for a set of members
+ */
+export function computeStats(members: Iterable<MembershipData>): MemberStats {
+    const stats: MemberStats = {
+        total: 0,
+        byStatus: {},
+        activePatrons: 0,
+        monthlyRevenue: 0,
+        revenueByTier: {}
+    };
+
+    for (const member of members) {
+        stats.total++;
+        stats.byStatus[member.status] = (stats.byStatus[member.status] || 0) + 1;
+
+        if (member.status !== 'active_patron') continue;
+
+        const pledge = member.pledgeAmount || 0;
+        stats.activePatrons++;
+        stats.monthlyRevenue += pledge;
+
+        const topTier = (member.tiers || []).reduce<TierData | undefined>(
+            (top, tier) => !top || (tier.amount || 0) > (top.amount || 0) ? tier : top, undefined);
+        if (topTier) {
+            const entry = stats.revenueByTier[topTier.id] || { title: topTier.title, patrons: 0, revenue: 0 };
+            entry.patrons++;
+            entry.revenue += pledge;
+            stats.revenueByTier[topTier.id] = entry;
+        }
+    }
+
+    // Avoid floating point noise from summing dollar amounts
+    stats.monthlyRevenue = Math.round(stats.monthlyRevenue * 100) / 100;
+    for (const entry of Object.values(stats.revenueByTier)) {
+        entry.revenue = Math.round(entry.revenue * 100) / 100;
+    }
+
+    return stats;
+}
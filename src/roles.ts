@@ -0,0 +1,223 @@
+import { DiscordClient } from "./discord";
+import { Logger, silentLogger } from "./logger";
+import type { PatreonEvents, MembershipData } from "../index";
+
+// A single mapping from Patreon entitlement to a Discord role
+// A rule without tierIds or minPledge matches every entitled patron
+export interface RoleRule {
+    roleId: string;
+    tierIds?: string[]; // Grant when the patron is entitled to any of these tiers
+    minPledge?: number; // Grant when the pledge amount (in dollars) is at least this
+}
+
+// Interface for the role sync options
+export interface RoleSyncOptions {
+    botToken: string;
+    guildId: string;
+    rules: RoleRule[];
+    apiBaseUrl?: string; // Discord API base URL (default: https://discord.com/api/v10)
+    dryRun?: boolean; // Only report planned changes (default: false)
+    entitledStatuses?: string[]; // Statuses that earn roles (default: ['active_patron'])
+    removeUnknown?: boolean; // Reconcile also strips managed roles from guild members outside the roster (default: false)
+}
+
+// A planned or applied role change
+export interface RoleChange {
+    action: 'add' | 'remove';
+    discordId: string;
+    roleId: string;
+    memberId?: string; // Patreon member ID, if known
+}
+
+// Result of a sync or reconciliation pass
+export interface RoleSyncReport {
+    dryRun: boolean;
+    changes: RoleChange[]; // Planned changes in dry run, otherwise the ones applied
+    failed: { discordId: string; change?: RoleChange; error: Error }[]; // change is unset when the lookup itself failed
+}
+
+/**
+ * RoleSync - Keeps Discord guild roles in line with Patreon entitlements
+ * Only roles named in the rules are ever added or removed
+ */
+export class RoleSync {
+    private client: DiscordClient;
+    private options: RoleSyncOptions;
+    private managedRoles: Set<string>;
+    private entitledStatuses: Set<string>;
+    private logger: Logger;
+
+    constructor(options: RoleSyncOptions, logger: Logger = silentLogger) {
+        this.options = options;
+        this.logger = logger;
+        this.client = new DiscordClient({ botToken: options.botToken, apiBaseUrl: options.apiBaseUrl });
+        this.managedRoles = new Set(options.rules.map(rule => rule.roleId));
+        this.entitledStatuses = new Set(options.entitledStatuses || ['active_patron']);
+    }
+
+    /**
+     * Get the managed roles a member should currently hold
+     */
+    desiredRoles(member: MembershipData): string[] {
+        // Declined patrons in their grace period and canceled patrons still paid through keep their roles
+        const stillEntitled = [member.gracePeriodEndsAt, member.entitledUntil]
+            .some(until => !!until && Date.parse(until) > Date.now());
+        if (!this.entitledStatuses.has(member.status) && !stillEntitled) {
+            return [];
+        }
+
+        const tierIds = new Set((member.tiers || []).map(tier => tier.id));
+        const roles = this.options.rules
+            .filter(rule => !rule.tierIds || rule.tierIds.some(id => tierIds.has(id)))
+            .filter(rule => rule.minPledge === undefined || (member.pledgeAmount || 0) >= rule.minPledge)
+            .map(rule => rule.roleId);
+
+        return Array.from(new Set(roles));
+    }
+
+    /**
+     * Bring a single member's managed roles in line with their entitlement
+     */
+    async syncMember(member: MembershipData, options: { dryRun?: boolean } = {}): Promise<RoleSyncReport> {
+        const dryRun = options.dryRun ?? this.options.dryRun ?? false;
+        const report: RoleSyncReport = { dryRun, changes: [], failed: [] };
+
+        if (member.discordId) {
+            await this.syncDiscordUser(member.discordId, this.desiredRoles(member), member.id, report);
+        }
+        return report;
+    }
+
+    /**
+     * Compare the whole roster against the guild and apply (or plan) every difference
+     * @param memberships The full roster, as returned by fetchMemberships()
+     */
+    async reconcile(memberships: MembershipData[], options: { dryRun?: boolean } = {}): Promise<RoleSyncReport> {
+        const dryRun = options.dryRun ?? this.options.dryRun ?? false;
+        const report: RoleSyncReport = { dryRun, changes: [], failed: [] };
+        const desired = await this.syncMemberships(memberships, report);
+
+        if (this.options.removeUnknown) {
+            const guildMembers = await this.client.listMembers(this.options.guildId);
+            for (const guildMember of guildMembers) {
+                const discordId = guildMember.user?.id;
+                if (!discordId || desired.has(discordId)) continue;
+
+                for (const roleId of guildMember.roles.filter(role => this.managedRoles.has(role))) {
+                    await this.applyChange({ action: 'remove', discordId, roleId }, report);
+                }
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Keep roles in sync as membership events arrive
+     * Failures are emitted as 'error' events on the PatreonEvents instance
+     */
+    attach(patreon: PatreonEvents): void {
+        const sync = (member: MembershipData) => {
+            // A Patreon membership and a manual grant for the same account add up, with this event's data taking precedence
+            const memberships = member.discordId ?
+                [member, ...patreon.users.getAll(member.discordId).filter(other => other.id !== member.id)] : [member];
+            const report: RoleSyncReport = { dryRun: this.options.dryRun ?? false, changes: [], failed: [] };
+
+            this.syncMemberships(memberships, report).then(() => {
+                report.failed.forEach(failure => patreon.emit('error', failure.error));
+            }).catch(error => {
+                patreon.emit('error', error instanceof Error ? error : new Error(String(error)));
+            });
+        };
+
+        patreon.on('subscribed', sync);
+        patreon.on('reactivated', sync);
+        patreon.on('connected', sync);
+        patreon.on('canceled', sync);
+        patreon.on('declined', sync);
+        patreon.on('expired', sync);
+        patreon.on('tierChanged', sync);
+        patreon.on('graceExpired', sync);
+        // A disconnected account loses every managed role, whatever the membership status
+        patreon.on('disconnected', (member) => sync({ ...member, status: 'none' }));
+    }
+
+    /**
+     * Sync every Discord account backing the given memberships
+     * @returns Desired roles by Discord ID
+     */
+    private async syncMemberships(memberships: MembershipData[], report: RoleSyncReport): Promise<Map<string, { roles: Set<string>; memberId: string }>> {
+        // Group by Discord ID, as one Discord account may back several memberships
+        const desired = new Map<string, { roles: Set<string>; memberId: string }>();
+        for (const member of memberships) {
+            if (!member.discordId) continue;
+            const entry = desired.get(member.discordId) || { roles: new Set<string>(), memberId: member.id };
+            this.desiredRoles(member).forEach(role => entry.roles.add(role));
+            desired.set(member.discordId, entry);
+        }
+
+        for (const [discordId, entry] of desired) {
+            await this.syncDiscordUser(discordId, Array.from(entry.roles), entry.memberId, report);
+        }
+        return desired;
+    }
+
+    /**
+     * Diff one Discord user's managed roles against the desired set
+     */
+    private async syncDiscordUser(discordId: string, desiredRoles: string[], memberId: string, report: RoleSyncReport): Promise<void> {
+        let guildMember;
+        try {
+            guildMember = await this.client.getMember(this.options.guildId, discordId);
+        } catch (error) {
+            report.failed.push({ discordId, error: error instanceof Error ? error : new Error(String(error)) });
+            return;
+        }
+
+        // Not in the guild, nothing to do
+        if (!guildMember) {
+            return;
+        }
+
+        const currentRoles = new Set(guildMember.roles.filter(role => this.managedRoles.has(role)));
+        const wanted = new Set(desiredRoles);
+
+        for (const roleId of wanted) {
+            if (!currentRoles.has(roleId)) {
+                await this.applyChange({ action: 'add', discordId, roleId, memberId }, report);
+            }
+        }
+        for (const roleId of currentRoles) {
+            if (!wanted.has(roleId)) {
+                await this.applyChange({ action: 'remove', discordId, roleId, memberId }, report);
+            }
+        }
+    }
+
+    /**
+     * Apply a change, or just record it in dry run mode
+     */
+    private async applyChange(change: RoleChange, report: RoleSyncReport): Promise<void> {
+        if (report.dryRun) {
+            this.logger.info(`Dry run: would ${change.action} role`, { ...change });
+            report.changes.push(change);
+            return;
+        }
+
+        try {
+            if (change.action === 'add') {
+                await this.client.addMemberRole(this.options.guildId, change.discordId, change.roleId);
+            } else {
+                await this.client.removeMemberRole(this.options.guildId, change.discordId, change.roleId);
+            }
+            report.changes.push(change);
+            this.logger.debug(`${change.action === 'add' ? 'Added' : 'Removed'} role`, { ...change });
+        } catch (error) {
+            report.failed.push({
+                discordId: change.discordId,
+                change,
+                error: error instanceof Error ? error : new Error(String(error))
+            });
+        }
+    }
+}
@@ -0,0 +1,49 @@
+// Longest delay setTimeout supports (~24.8 days)
+const MAX_TIMEOUT = 2147483647;
+
+/**
+ * Keyed one-shot timers for absolute timestamps
+ * Delays beyond what setTimeout supports are reached in steps
+ */
+export class Scheduler {
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+
+    /**
+     * Run a callback at the given time, replacing any timer with the same key
+     * @param at Timestamp (ms); times in the past run on the next tick
+     */
+    schedule(key: string, at: number, callback: () => void): void {
+        this.cancel(key);
+
+        const delay = Math.max(0, Math.min(at - Date.now(), MAX_TIMEOUT));
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            if (Date.now() < at) {
+                this.schedule(key, at, callback);
+                return;
+            }
+            callback();
+        }, delay));
+    }
+
+    /**
+     * Cancel the timer with the given key, if any
+     */
+    cancel(key: string): void {
+        const timer = this.timers.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(key);
+        }
+    }
+
+    /**
+     * Cancel every timer
+     */
+    clear(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+}
@@ -0,0 +1,407 @@
+import * as http from "http";
+import { HttpListener } from "./http";
+import type { PatreonEvents, PatreonEventMap, TierData } from "../index";
+
+// A member on the fake campaign's roster
+export interface FakeMember {
+    id: string;
+    status: string; // active_patron, declined_patron, former_patron
+    fullName?: string;
+    email?: string;
+    userId?: string; // Patreon user ID (default: user-<member ID>)
+    discordId?: string | null; // Discord account linked through social connections
+    tierIds?: string[]; // Currently entitled tiers, defined with setTier()
+    pledgeStartedAt?: string;
+    nextChargeDate?: string;
+    lifetimeSupport?: number; // Lifetime support to the campaign in dollars
+}
+
+// Interface for the fake server options
+export interface FakePatreonServerOptions {
+    campaignId?: string; // Campaign served under /campaigns/:id/members (default: '1')
+    accessToken?: string; // Bearer token every request must carry (default: 'test-access-token')
+    refreshToken?: string; // Refresh token the token endpoint accepts (default: 'test-refresh-token')
+    pageSize?: number; // Most members per page, to exercise pagination (default: 100)
+    port?: number; // Port to listen on (default: any free port)
+}
+
+// A request received by the fake server
+export interface FakeRequest {
+    path: string;
+    query: Record<string, string>;
+}
+
+// An event emitted during a simulated cycle
+export interface SimulatedEvent {
+    event: keyof PatreonEventMap;
+    data: any;
+}
+
+// Events recorded by the simulator; snapshot, token and lifecycle events are left out
+const RECORDED_EVENTS: (keyof PatreonEventMap)[] = [
+    'subscribed', 'connected', 'canceled', 'declined', 'reactivated', 'disconnected', 'expired',
+    'tierChanged', 'upgraded', 'downgraded', 'gracePeriodStarted', 'graceExpired', 'recovered',
+    'expiringSoon', 'milestone', 'anomalyDetected'
+];
+
+/**
+ * FakePatreonServer - In-process stand-in for the Patreon API v2
+ * Serves a scriptable roster with pagination, tier includes and Discord social connections;
+ * point PatreonEvents at it with the apiBaseUrl option, and at tokenUrl to exercise token refresh
+ */
+export class FakePatreonServer {
+    readonly campaignId: string;
+    // Every request received, oldest first
+    readonly requests: FakeRequest[] = [];
+    private pageSize: number;
+    private port: number;
+    private listener: HttpListener = new HttpListener((req, res) => this.handle(req, res));
+    private roster: Map<string, FakeMember> = new Map();
+    private tiers: Map<string, TierData> = new Map();
+    private failures: ({ status: number; retryAfter?: number } | null)[] = []; // Answers to the next requests; null lets one through
+    private currentAccessToken: string;
+    private currentRefreshToken: string;
+    private refreshes: number = 0;
+
+    constructor(options: FakePatreonServerOptions = {}) {
+        this.campaignId = options.campaignId || '1';
+        this.currentAccessToken = options.accessToken || 'test-access-token';
+        this.currentRefreshToken = options.refreshToken || 'test-refresh-token';
+        this.pageSize = options.pageSize || 100;
+        this.port = options.port || 0;
+    }
+
+    /**
+     * Start listening on localhost
+     * @returns The base URL to pass as apiBaseUrl
+     */
+    start(): Promise<string> {
+        return this.listener.start(this.port, '127.0.0.1').then(() => this.url);
+    }
+
+    /**
+     * Stop listening
+     */
+    stop(): Promise<void> {
+        return this.listener.stop();
+    }
+
+    /**
+     * Base URL of the running server
+     */
+    get url(): string {
+        if (!this.listener.listening) {
+            throw new Error("The fake Patreon server is not running");
+        }
+        return `http://127.0.0.1:${this.listener.port}`;
+    }
+
+    /**
+     * Token endpoint to pass as tokenUrl
+     */
+    get tokenUrl(): string {
+        return `${this.url}/token`;
+    }
+
+    /**
+     * Bearer token requests must currently carry; a refresh replaces it
+     */
+    get accessToken(): string {
+        return this.currentAccessToken;
+    }
+
+    /**
+     * Refresh token the token endpoint currently accepts; each refresh rotates it
+     */
+    get refreshToken(): string {
+        return this.currentRefreshToken;
+    }
+
+    /**
+     * Reject the current access token from now on, as Patreon does once it expires
+     * Only a refresh gets a valid one again
+     */
+    expireAccessToken(): void {
+        this.currentAccessToken = `expired-${this.currentAccessToken}`;
+    }
+
+    /**
+     * Define a tier members can be entitled to
+     */
+    setTier(tier: TierData): void {
+        this.tiers.set(tier.id, tier);
+    }
+
+    /**
+     * Add a member to the roster, or replace the one with the same ID
+     */
+    setMember(member: FakeMember): void {
+        this.roster.set(member.id, { ...member });
+    }
+
+    /**
+     * Change some fields of a member on the roster
+     */
+    updateMember(id: string, changes: Partial<FakeMember>): void {
+        const member = this.roster.get(id);
+        if (!member) {
+            throw new Error(`No member with ID "${id}" on the fake roster`);
+        }
+        this.roster.set(id, { ...member, ...changes, id });
+    }
+
+    /**
+     * Take a member off the roster
+     */
+    removeMember(id: string): void {
+        this.roster.delete(id);
+    }
+
+    /**
+     * Get a member on the roster
+     */
+    getMember(id: string): FakeMember | null {
+        const member = this.roster.get(id);
+        return member ? { ...member } : null;
+    }
+
+    /**
+     * Answer the next requests with an error status, e.g. to exercise retries
+     * Calls queue up: each one takes effect once the failures scheduled before it are used up
+     * @param options times: how many requests fail (default: 1); after: how many requests succeed first,
+     *     e.g. 1 to fail the second page of a roster (default: 0); retryAfter: seconds to send as Retry-After
+     */
+    failNext(status: number, options: { times?: number; after?: number; retryAfter?: number } = {}): void {
+        for (let i = 0; i < (options.after || 0); i++) {
+            this.failures.push(null);
+        }
+        for (let i = 0; i < (options.times ?? 1); i++) {
+            this.failures.push({ status, retryAfter: options.retryAfter });
+        }
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = new URL(req.url || '/', this.url);
+        this.requests.push({ path: url.pathname, query: Object.fromEntries(url.searchParams) });
+
+        const failure = this.failures.shift();
+        if (failure !== undefined && failure !== null) {
+            if (failure.retryAfter !== undefined) {
+                res.setHeader('Retry-After', String(failure.retryAfter));
+            }
+            return this.send(res, failure.status, { errors: [{ status: String(failure.status), detail: 'Simulated failure' }] });
+        }
+        if (url.pathname === '/token' && req.method === 'POST') {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => this.refresh(new URLSearchParams(body), res));
+            return;
+        }
+        if (req.headers['authorization'] !== `Bearer ${this.accessToken}`) {
+            return this.send(res, 401, { errors: [{ status: '401', detail: 'Unauthorized' }] });
+        }
+
+        const membersPath = url.pathname.match(/^\/campaigns\/([^/]+)\/members$/);
+        if (membersPath) {
+            if (membersPath[1] !== this.campaignId) {
+                return this.send(res, 404, { errors: [{ status: '404', detail: 'Campaign not found' }] });
+            }
+            return this.send(res, 200, this.membersPage(url));
+        }
+        if (url.pathname === '/campaigns') {
+            return this.send(res, 200, { data: [{
+                id: this.campaignId,
+                type: 'campaign',
+                attributes: {
+                    creation_name: 'Test Campaign',
+                    vanity: 'test',
+                    url: 'https://www.patreon.com/test',
+                    patron_count: Array.from(this.roster.values()).filter(member => member.status === 'active_patron').length
+                }
+            }] });
+        }
+        if (url.pathname === '/identity') {
+            return this.send(res, 200, { data: { id: 'creator', type: 'user', attributes: { full_name: 'Test Creator' } } });
+        }
+
+        this.send(res, 404, { errors: [{ status: '404', detail: 'Not found' }] });
+    }
+
+    /**
+     * Exchange the current refresh token for a new token set, rotating both tokens
+     */
+    private refresh(params: URLSearchParams, res: http.ServerResponse): void {
+        if (params.get('grant_type') !== 'refresh_token' || params.get('refresh_token') !== this.currentRefreshToken) {
+            return this.send(res, 400, { error: 'invalid_grant' });
+        }
+
+        this.refreshes++;
+        this.currentAccessToken = `test-access-token-${this.refreshes}`;
+        this.currentRefreshToken = `test-refresh-token-${this.refreshes}`;
+        this.send(res, 200, {
+            access_token: this.currentAccessToken,
+            refresh_token: this.currentRefreshToken,
+            expires_in: 2678400,
+            scope: 'identity campaigns campaigns.members',
+            token_type: 'Bearer'
+        });
+    }
+
+    /**
+     * Build one page of the roster, with the users and tiers it references included once each
+     */
+    private membersPage(url: URL): any {
+        const members = Array.from(this.roster.values());
+        const offset = Number(url.searchParams.get('page[cursor]')) || 0;
+        const count = Math.min(Number(url.searchParams.get('page[count]')) || this.pageSize, this.pageSize);
+        const page = members.slice(offset, offset + count);
+
+        const included = new Map<string, any>();
+        const data = page.map(member => {
+            const userId = member.userId || `user-${member.id}`;
+            included.set(`user:${userId}`, {
+                id: userId,
+                type: 'user',
+                attributes: {
+                    social_connections: { discord: member.discordId ? { user_id: member.discordId } : null }
+                }
+            });
+
+            const tierIds = member.tierIds || [];
+            for (const tierId of tierIds) {
+                const tier = this.tiers.get(tierId);
+                included.set(`tier:${tierId}`, {
+                    id: tierId,
+                    type: 'tier',
+                    attributes: {
+                        title: tier?.title,
+                        amount_cents: tier?.amount !== undefined ? Math.round(tier.amount * 100) : undefined
+                    }
+                });
+            }
+
+            return {
+                id: member.id,
+                type: 'member',
+                attributes: {
+                    patron_status: member.status,
+                    full_name: member.fullName,
+                    email: member.email,
+                    pledge_relationship_start: member.pledgeStartedAt,
+                    next_charge_date: member.nextChargeDate,
+                    campaign_lifetime_support_cents: member.lifetimeSupport !== undefined ?
+                        Math.round(member.lifetimeSupport * 100) : undefined
+                },
+                relationships: {
+                    user: { data: { id: userId, type: 'user' } },
+                    currently_entitled_tiers: { data: tierIds.map(id => ({ id, type: 'tier' })) }
+                }
+            };
+        });
+
+        const next = offset + count < members.length ?
+            `${this.url}/campaigns/${this.campaignId}/members?page[cursor]=${offset + count}&page[count]=${count}` : null;
+
+        return {
+            data,
+            included: Array.from(included.values()),
+            links: next ? { next } : {},
+            meta: { pagination: { total: members.length } }
+        };
+    }
+
+    private send(res: http.ServerResponse, status: number, body: unknown): void {
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+    }
+}
+
+/**
+ * Simulator - Changes the fake roster and runs a check, returning the events it produced
+ * The first cycle seeds the cache like any first run; with the default initialSync, call cycle() once first
+ */
+export class Simulator {
+    private server: FakePatreonServer;
+    private patreon: PatreonEvents;
+
+    constructor(server: FakePatreonServer, patreon: PatreonEvents) {
+        this.server = server;
+        this.patreon = patreon;
+    }
+
+    /**
+     * Run a check and collect the events it emitted
+     * Rejects if the check failed
+     */
+    async cycle(): Promise<SimulatedEvent[]> {
+        const events: SimulatedEvent[] = [];
+        let failure = null as Error | null;
+
+        const listeners = RECORDED_EVENTS.map(event => {
+            const listener = (data: any) => events.push({ event, data });
+            this.patreon.on(event, listener);
+            return { event, listener };
+        });
+        const onError = (error: Error) => { failure = error; };
+        this.patreon.on('error', onError);
+
+        try {
+            await this.patreon.checkForUpdates();
+        } finally {
+            listeners.forEach(({ event, listener }) => this.patreon.off(event, listener));
+            this.patreon.off('error', onError);
+        }
+
+        if (failure) {
+            throw failure;
+        }
+        return events;
+    }
+
+    /**
+     * Add a new active patron
+     */
+    subscribe(member: Omit<FakeMember, 'status'> & { status?: string }): Promise<SimulatedEvent[]> {
+        this.server.setMember({ status: 'active_patron', ...member });
+        return this.cycle();
+    }
+
+    cancel(memberId: string): Promise<SimulatedEvent[]> {
+        this.server.updateMember(memberId, { status: 'former_patron', tierIds: [] });
+        return this.cycle();
+    }
+
+    decline(memberId: string): Promise<SimulatedEvent[]> {
+        this.server.updateMember(memberId, { status: 'declined_patron' });
+        return this.cycle();
+    }
+
+    reactivate(memberId: string): Promise<SimulatedEvent[]> {
+        this.server.updateMember(memberId, { status: 'active_patron' });
+        return this.cycle();
+    }
+
+    linkDiscord(memberId: string, discordId: string): Promise<SimulatedEvent[]> {
+        this.server.updateMember(memberId, { discordId });
+        return this.cycle();
+    }
+
+    unlinkDiscord(memberId: string): Promise<SimulatedEvent[]> {
+        this.server.updateMember(memberId, { discordId: null });
+        return this.cycle();
+    }
+
+    changeTiers(memberId: string, tierIds: string[]): Promise<SimulatedEvent[]> {
+        this.server.updateMember(memberId, { tierIds });
+        return this.cycle();
+    }
+
+    /**
+     * Take a member off the roster entirely
+     */
+    remove(memberId: string): Promise<SimulatedEvent[]> {
+        this.server.removeMember(memberId);
+        return this.cycle();
+    }
+}
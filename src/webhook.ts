@@ -0,0 +1,161 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import { HttpListener } from "./http";
+
+// Patreon webhook triggers that carry a member resource
+export const MEMBER_WEBHOOK_TRIGGERS = [
+    'members:create',
+    'members:update',
+    'members:delete',
+    'members:pledge:create',
+    'members:pledge:update',
+    'members:pledge:delete'
+];
+
+// Outcome of handling a single webhook delivery; 'not_leader' asks Patreon to deliver it again
+export type WebhookResult = 'accepted' | 'ignored' | 'invalid_signature' | 'invalid_payload' | 'not_leader';
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+// Largest request body the built-in server reads; Patreon deliveries are far smaller
+export const MAX_WEBHOOK_BODY_SIZE = 1024 * 1024;
+
+// Interface for the webhook HTTP server options
+export interface WebhookServerOptions {
+    port: number;
+    host?: string; // Interface to bind to (default: all interfaces)
+    path: string; // Route that accepts webhook POSTs
+}
+
+/**
+ * Verify the X-Patreon-Signature header, which is the hex HMAC-MD5 of the raw body
+ * signed with the webhook secret
+ */
+export function verifyWebhookSignature(body: string | Buffer, signature: string | undefined, secret: string): boolean {
+    if (!signature) {
+        return false;
+    }
+
+    const expected = crypto.createHmac('md5', secret).update(body).digest('hex');
+    const received = signature.trim().toLowerCase();
+
+    // Compare in constant time; lengths must match for timingSafeEqual
+    if (received.length !== expected.length) {
+        return false;
+    }
+    return crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+}
+
+/**
+ * Read a header value regardless of casing or repetition
+ */
+export function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+    const value = key ? headers[key] : undefined;
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Minimal HTTP server that receives Patreon webhook deliveries and hands the
+ * raw body to a handler for verification and processing
+ */
+export class WebhookServer {
+    private listener: HttpListener;
+    private options: WebhookServerOptions;
+    private handler: (rawBody: Buffer, headers: WebhookHeaders) => WebhookResult;
+
+    constructor(options: WebhookServerOptions, handler: (rawBody: Buffer, headers: WebhookHeaders) => WebhookResult) {
+        this.options = options;
+        this.handler = handler;
+        this.listener = new HttpListener((req, res) => this.onRequest(req, res));
+    }
+
+    /**
+     * Whether the server is currently accepting connections
+     */
+    get listening(): boolean {
+        return this.listener.listening;
+    }
+
+    /**
+     * Start listening on the configured port
+     */
+    start(): Promise<void> {
+        return this.listener.start(this.options.port, this.options.host);
+    }
+
+    /**
+     * Stop accepting connections
+     */
+    stop(): Promise<void> {
+        return this.listener.stop();
+    }
+
+    private onRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = (req.url || '').split('?')[0];
+
+        if (url !== this.options.path) {
+            res.writeHead(404).end();
+            return;
+        }
+
+        if (req.method !== 'POST') {
+            res.writeHead(405, { 'Allow': 'POST' }).end();
+            return;
+        }
+
+        // Refuse oversized bodies before buffering them; the signature can only be checked once all is read
+        if (Number(req.headers['content-length']) > MAX_WEBHOOK_BODY_SIZE) {
+            this.rejectTooLarge(req, res);
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_WEBHOOK_BODY_SIZE) {
+                chunks.length = 0;
+                this.rejectTooLarge(req, res);
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (res.headersSent) {
+                return;
+            }
+            let result: WebhookResult;
+            try {
+                result = this.handler(Buffer.concat(chunks), req.headers);
+            } catch (error) {
+                res.writeHead(500).end();
+                return;
+            }
+
+            switch (result) {
+                case 'invalid_signature':
+                    res.writeHead(401).end();
+                    break;
+                case 'invalid_payload':
+                    res.writeHead(400).end();
+                    break;
+                case 'not_leader':
+                    res.writeHead(503).end();
+                    break;
+                default:
+                    res.writeHead(200).end();
+            }
+        });
+    }
+
+    /**
+     * Answer 413 and close the connection without reading the rest of the body
+     */
+    private rejectTooLarge(req: http.IncomingMessage, res: http.ServerResponse): void {
+        if (res.headersSent) {
+            return;
+        }
+        res.writeHead(413, { 'Connection': 'close' }).end(() => req.destroy());
+    }
+}
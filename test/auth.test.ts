@@ -0,0 +1,77 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "events";
+import { PatreonEvents, PatreonOptions, FakePatreonServer, Simulator, MemoryCacheStore, TokenSet } from "../index";
+
+describe("token refresh", () => {
+    let server: FakePatreonServer;
+    let store: MemoryCacheStore;
+    const instances: PatreonEvents[] = [];
+
+    beforeEach(async () => {
+        server = new FakePatreonServer();
+        server.setMember({ id: 'm1', status: 'active_patron', discordId: 'd1' });
+        await server.start();
+        store = new MemoryCacheStore();
+    });
+
+    afterEach(async () => {
+        await Promise.all(instances.splice(0).map(patreon => patreon.stop()));
+        await server.stop();
+    });
+
+    function create(options: Partial<PatreonOptions> = {}): PatreonEvents {
+        const patreon = new PatreonEvents({
+            accessToken: 'test-access-token',
+            refreshToken: 'test-refresh-token',
+            clientId: 'client-id',
+            clientSecret: 'client-secret',
+            tokenUrl: server.tokenUrl,
+            campaignId: server.campaignId,
+            apiBaseUrl: server.url,
+            cacheStore: store,
+            ...options
+        });
+        instances.push(patreon);
+        return patreon;
+    }
+
+    test("a 401 refreshes the token, retries the request and persists the rotated tokens", async () => {
+        const rotated: TokenSet[] = [];
+        const patreon = create({ onTokenRefresh: (tokens) => { rotated.push(tokens); } });
+        const sim = new Simulator(server, patreon);
+        await sim.cycle();
+
+        server.expireAccessToken();
+        const refreshed = once(patreon, 'tokenRefreshed');
+        const events = await sim.cancel('m1');
+        const [tokens] = await refreshed;
+
+        assert.deepEqual(events.map(({ event }) => event), ['canceled']);
+        assert.deepEqual(server.requests.slice(-3).map(request => request.path), ['/campaigns/1/members', '/token', '/campaigns/1/members']);
+        assert.equal(tokens.accessToken, server.accessToken);
+        assert.equal(tokens.refreshToken, server.refreshToken);
+        assert.deepEqual(rotated, [tokens]);
+        assert.equal((await store.load())?.tokens?.refreshToken, server.refreshToken);
+
+        // After a restart, the rotated tokens are used rather than the configured ones
+        await patreon.stop();
+        const requests = server.requests.length;
+        await new Simulator(server, create()).cycle();
+        assert.deepEqual(server.requests.slice(requests).map(request => request.path), ['/campaigns/1/members']);
+    });
+
+    test("a rejected refresh emits authFailed and fails the check", async () => {
+        const patreon = create({ accessToken: 'expired-token', refreshToken: 'revoked-refresh-token' });
+        const failures: Error[] = [];
+        patreon.on('authFailed', (error) => failures.push(error));
+        let refreshed = false;
+        patreon.on('tokenRefreshed', () => { refreshed = true; });
+
+        await assert.rejects(new Simulator(server, patreon).cycle(), /Failed to refresh Patreon access token/);
+        assert.equal(failures.length, 1);
+        assert.equal(refreshed, false);
+        assert.equal(patreon.getStatus().consecutiveFailures, 1);
+        assert.equal(patreon.users.getByPatreonId('m1'), null);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CampaignManager, FakePatreonServer, MemoryCacheStore } from "../index";
+
+function ready(manager: CampaignManager): Promise<void> {
+    return new Promise(resolve => manager.once('ready', resolve));
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe("CampaignManager on several replicas", () => {
+    let servers: FakePatreonServer[];
+    let managers: CampaignManager[];
+    let lockFile: string;
+    const store = new MemoryCacheStore();
+
+    beforeEach(async () => {
+        servers = [new FakePatreonServer({ campaignId: 'c1' }), new FakePatreonServer({ campaignId: 'c2' })];
+        servers[0].setMember({ id: 'm1', status: 'active_patron', discordId: 'd1' });
+        servers[1].setMember({ id: 'm2', status: 'active_patron', discordId: 'd2' });
+        await Promise.all(servers.map(server => server.start()));
+        lockFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'patreon-lock-')), 'leader.lock');
+        managers = [];
+    });
+
+    afterEach(async () => {
+        await Promise.all(managers.map(manager => manager.stop()));
+        await Promise.all(servers.map(server => server.stop()));
+        fs.rmSync(path.dirname(lockFile), { recursive: true, force: true });
+    });
+
+    function replica(): CampaignManager {
+        const manager = new CampaignManager({
+            campaigns: servers.map(server => ({
+                campaignId: server.campaignId,
+                accessToken: server.accessToken,
+                apiBaseUrl: server.url
+            })),
+            defaults: { leaderLock: lockFile, leaderLockTtl: 300, checkInterval: 3600000 },
+            cacheStore: store
+        });
+        managers.push(manager);
+        return manager;
+    }
+
+    test("one replica leads every campaign and the other follows them all", async () => {
+        const leader = replica();
+        const leaderReady = ready(leader);
+        leader.initialize();
+        await leaderReady;
+
+        const leading = (manager: CampaignManager) =>
+            Object.values(manager.getStatus()).map(status => status.leader);
+        assert.deepEqual(leading(leader), [true, true]);
+        assert.equal(leader.users.get('d1')?.id, 'm1');
+        assert.equal(leader.users.get('d2')?.id, 'm2');
+
+        const follower = replica();
+        const followerReady = ready(follower);
+        follower.initialize();
+        await followerReady;
+        assert.deepEqual(leading(follower), [false, false]);
+        assert.equal(follower.users.get('d2')?.id, 'm2');
+
+        // Changes on a follower would overwrite the leader's cache
+        await assert.rejects(follower.get('c1')!.grants.grant('d9'), /leader/);
+        await assert.rejects(follower.get('c1')!.links.link('u1', 'd9'), /leader/);
+
+        // Followers pick up what the leader saves
+        servers[1].setMember({ id: 'm3', status: 'active_patron', discordId: 'd3' });
+        await leader.checkForUpdates();
+        await delay(400);
+        assert.equal(follower.users.get('d3')?.id, 'm3');
+    });
+});
@@ -0,0 +1,126 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "events";
+import { PatreonEvents, PatreonOptions, FakePatreonServer, Simulator, MemoryCacheStore, MembershipData, DeliveryFailure } from "../index";
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait until a condition holds, failing after a second
+ */
+async function waitFor(condition: () => boolean | Promise<boolean>): Promise<void> {
+    for (let waited = 0; !(await condition()); waited += 10) {
+        if (waited >= 1000) {
+            throw new Error("Timed out waiting for the condition");
+        }
+        await delay(10);
+    }
+}
+
+describe("durable handlers", () => {
+    let server: FakePatreonServer;
+    let store: MemoryCacheStore;
+    const instances: PatreonEvents[] = [];
+
+    beforeEach(async () => {
+        server = new FakePatreonServer();
+        server.setMember({ id: 'm1', status: 'active_patron', discordId: 'd1' });
+        await server.start();
+        store = new MemoryCacheStore();
+    });
+
+    afterEach(async () => {
+        await Promise.all(instances.splice(0).map(patreon => patreon.stop()));
+        await server.stop();
+    });
+
+    function create(delivery: PatreonOptions['delivery']): PatreonEvents {
+        const patreon = new PatreonEvents({
+            accessToken: server.accessToken,
+            campaignId: server.campaignId,
+            apiBaseUrl: server.url,
+            cacheStore: store,
+            delivery
+        });
+        instances.push(patreon);
+        return patreon;
+    }
+
+    async function outboxSize(): Promise<number> {
+        return (await store.load())?.outbox?.length ?? 0;
+    }
+
+    test("a handler that throws gets the event again until it succeeds", async () => {
+        const patreon = create({ retries: 3, minDelay: 1, maxDelay: 5 });
+        let calls = 0;
+        patreon.handle('canceled', 'remove-role', (member) => {
+            calls++;
+            assert.equal(member.id, 'm1');
+            if (calls < 3) {
+                throw new Error("Discord is down");
+            }
+        });
+        const failures: DeliveryFailure[] = [];
+        patreon.on('deliveryFailed', (failure) => failures.push(failure));
+
+        const sim = new Simulator(server, patreon);
+        await sim.cycle();
+        await sim.cancel('m1');
+
+        await waitFor(async () => calls === 3 && await outboxSize() === 0);
+        await delay(20);
+        assert.equal(calls, 3);
+        assert.deepEqual(failures, []);
+    });
+
+    test("deliveryFailed is emitted once the retries are exhausted", async () => {
+        const patreon = create({ retries: 2, minDelay: 1, maxDelay: 5 });
+        let calls = 0;
+        patreon.handle('canceled', 'remove-role', () => {
+            calls++;
+            return Promise.reject(new Error("Discord is down"));
+        });
+        const failed = once(patreon, 'deliveryFailed');
+
+        const sim = new Simulator(server, patreon);
+        await sim.cycle();
+        await sim.cancel('m1');
+
+        const [failure] = await failed as [DeliveryFailure];
+        assert.equal(failure.event, 'canceled');
+        assert.equal(failure.handlerId, 'remove-role');
+        assert.equal(failure.data.id, 'm1');
+        assert.equal(failure.attempts, 3);
+        assert.equal(failure.error.message, "Discord is down");
+        assert.equal(calls, 3);
+        await waitFor(async () => await outboxSize() === 0);
+    });
+
+    test("events still pending at shutdown are delivered after a restart", async () => {
+        const first = create({ retries: 5, minDelay: 200, maxDelay: 200 });
+        let failedOnce = false;
+        first.handle('canceled', 'remove-role', () => {
+            failedOnce = true;
+            throw new Error("Discord is down");
+        });
+        const sim = new Simulator(server, first);
+        await sim.cycle();
+        await sim.cancel('m1');
+        await waitFor(() => failedOnce);
+        await first.stop();
+        assert.equal(await outboxSize(), 1);
+
+        // The handler keeps its ID, so the next instance picks the event up from the cache
+        const second = create({ retries: 5, minDelay: 200, maxDelay: 200 });
+        const delivered: MembershipData[] = [];
+        second.handle('canceled', 'remove-role', (member) => {
+            delivered.push(member);
+        });
+
+        await waitFor(async () => delivered.length === 1 && await outboxSize() === 0);
+        assert.equal(delivered[0].id, 'm1');
+        assert.equal(delivered[0].status, 'former_patron');
+    });
+});
@@ -0,0 +1,175 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { PatreonEvents, FakePatreonServer, Simulator, SimulatedEvent, MemoryCacheStore } from "../index";
+
+/**
+ * Events as "event:memberId", in the order they were emitted
+ */
+function names(events: SimulatedEvent[]): string[] {
+    return events.map(({ event, data }) => `${event}:${data.id}`);
+}
+
+describe("checkForUpdates diffing", () => {
+    let server: FakePatreonServer;
+    let patreon: PatreonEvents;
+    let sim: Simulator;
+
+    beforeEach(async () => {
+        server = new FakePatreonServer({ pageSize: 2 });
+        server.setTier({ id: 't1', title: 'Bronze', amount: 5 });
+        server.setTier({ id: 't2', title: 'Gold', amount: 10 });
+        server.setMember({ id: 'm1', status: 'active_patron', discordId: 'd1', tierIds: ['t1'] });
+        server.setMember({ id: 'm2', status: 'active_patron', discordId: null, tierIds: ['t1'] });
+        server.setMember({ id: 'm3', status: 'former_patron' });
+
+        patreon = new PatreonEvents({
+            accessToken: server.accessToken,
+            campaignId: server.campaignId,
+            apiBaseUrl: await server.start(),
+            cacheStore: new MemoryCacheStore(),
+            retry: { retries: 0 }
+        });
+        sim = new Simulator(server, patreon);
+
+        // The first cycle seeds the cache
+        await sim.cycle();
+    });
+
+    afterEach(async () => {
+        await patreon.stop();
+        await server.stop();
+    });
+
+    test("a quiet roster emits nothing", async () => {
+        assert.deepEqual(names(await sim.cycle()), []);
+    });
+
+    test("a new patron is subscribed, and connected when they have Discord", async () => {
+        const events = await sim.subscribe({ id: 'm4', discordId: 'd4' });
+        assert.deepEqual(names(events), ['subscribed:m4', 'connected:m4']);
+        assert.equal(patreon.users.get('d4')?.id, 'm4');
+    });
+
+    test("a cancellation emits canceled once", async () => {
+        const events = await sim.cancel('m1');
+        assert.deepEqual(names(events), ['canceled:m1']);
+        assert.equal(events[0].data.status, 'former_patron');
+        assert.deepEqual(names(await sim.cycle()), []);
+    });
+
+    test("a decline and its recovery emit declined and reactivated", async () => {
+        assert.deepEqual(names(await sim.decline('m1')), ['declined:m1']);
+        assert.deepEqual(names(await sim.reactivate('m1')), ['reactivated:m1']);
+    });
+
+    test("a former patron pledging again is reactivated", async () => {
+        assert.deepEqual(names(await sim.reactivate('m3')), ['reactivated:m3']);
+    });
+
+    test("linking, unlinking and relinking Discord emit connected and disconnected", async () => {
+        assert.deepEqual(names(await sim.linkDiscord('m2', 'd2')), ['connected:m2']);
+        assert.equal(patreon.users.get('d2')?.id, 'm2');
+
+        const unlinked = await sim.unlinkDiscord('m2');
+        assert.deepEqual(names(unlinked), ['disconnected:m2']);
+        assert.equal(unlinked[0].data.discordId, 'd2'); // Reported with the account that went away
+        assert.equal(patreon.users.get('d2'), null);
+
+        assert.deepEqual(names(await sim.linkDiscord('m2', 'd2')), ['connected:m2']);
+    });
+
+    test("switching Discord accounts disconnects the old one and connects the new one", async () => {
+        const events = await sim.linkDiscord('m1', 'd9');
+        assert.deepEqual(names(events), ['disconnected:m1', 'connected:m1']);
+        assert.deepEqual(events.map(({ data }) => data.discordId), ['d1', 'd9']);
+        assert.equal(patreon.users.get('d1'), null);
+        assert.equal(patreon.users.get('d9')?.id, 'm1');
+    });
+
+    test("a member taken off the roster is disconnected and forgotten", async () => {
+        const events = await sim.remove('m1');
+        assert.deepEqual(names(events), ['disconnected:m1']);
+        assert.equal(events[0].data.discordId, 'd1');
+        assert.equal(patreon.users.getByPatreonId('m1'), null);
+        assert.deepEqual(names(await sim.cycle()), []);
+    });
+
+    test("a tier change within the same status emits tierChanged and its direction", async () => {
+        const upgrade = await sim.changeTiers('m1', ['t2']);
+        assert.deepEqual(names(upgrade), ['tierChanged:m1', 'upgraded:m1']);
+        assert.deepEqual(upgrade[0].data.previousTiers.map((tier: any) => tier.id), ['t1']);
+        assert.deepEqual(upgrade[0].data.currentTiers.map((tier: any) => tier.id), ['t2']);
+
+        assert.deepEqual(names(await sim.changeTiers('m1', ['t1'])), ['tierChanged:m1', 'downgraded:m1']);
+    });
+
+    test("a failed fetch aborts the cycle without emitting, and the next one catches up", async () => {
+        server.updateMember('m1', { status: 'former_patron', tierIds: [] });
+        server.removeMember('m2');
+        server.failNext(500);
+
+        const emitted: string[] = [];
+        patreon.on('canceled', (member) => emitted.push(`canceled:${member.id}`));
+        patreon.on('disconnected', (member) => emitted.push(`disconnected:${member.id}`));
+
+        await assert.rejects(sim.cycle());
+        assert.deepEqual(emitted, []);
+        assert.equal(patreon.users.getByPatreonId('m1')?.status, 'active_patron');
+        assert.equal(patreon.getStatus().consecutiveFailures, 1);
+
+        assert.deepEqual(names(await sim.cycle()), ['canceled:m1']);
+        assert.equal(patreon.users.getByPatreonId('m2'), null);
+    });
+
+    test("a page failing after the first one aborts the cycle too", async () => {
+        server.updateMember('m1', { status: 'former_patron', tierIds: [] });
+        // Page 1 succeeds, page 2 fails
+        server.failNext(500, { after: 1 });
+
+        await assert.rejects(sim.cycle());
+        assert.equal(patreon.users.getByPatreonId('m1')?.status, 'active_patron');
+
+        assert.deepEqual(names(await sim.cycle()), ['canceled:m1']);
+    });
+});
+
+describe("initialSync", () => {
+    let server: FakePatreonServer;
+    let patreon: PatreonEvents | null = null;
+
+    beforeEach(async () => {
+        server = new FakePatreonServer();
+        server.setMember({ id: 'm1', status: 'active_patron', discordId: 'd1' });
+        server.setMember({ id: 'm2', status: 'declined_patron' });
+        server.setMember({ id: 'm3', status: 'former_patron', discordId: 'd3' });
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await patreon?.stop();
+        await server.stop();
+    });
+
+    function firstCycle(initialSync: 'silent' | 'emit' | 'diff-from-cache'): Promise<SimulatedEvent[]> {
+        patreon = new PatreonEvents({
+            accessToken: server.accessToken,
+            campaignId: server.campaignId,
+            apiBaseUrl: server.url,
+            cacheStore: new MemoryCacheStore(),
+            initialSync
+        });
+        return new Simulator(server, patreon).cycle();
+    }
+
+    test("'silent' announces no subscriptions", async () => {
+        assert.deepEqual(names(await firstCycle('silent')).filter(name => name.startsWith('subscribed')), []);
+    });
+
+    test("'emit' announces active patrons only", async () => {
+        assert.deepEqual(names(await firstCycle('emit')), ['connected:m1', 'subscribed:m1', 'connected:m3']);
+    });
+
+    test("'diff-from-cache' announces active patrons only", async () => {
+        assert.deepEqual(names(await firstCycle('diff-from-cache')), ['subscribed:m1', 'connected:m1', 'connected:m3']);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { PatreonEvents, FakePatreonServer, Simulator, MemoryCacheStore, RateLimiter } from "../index";
+
+describe("request retries", () => {
+    let server: FakePatreonServer;
+    let patreon: PatreonEvents;
+    let sim: Simulator;
+
+    beforeEach(async () => {
+        server = new FakePatreonServer();
+        server.setMember({ id: 'm1', status: 'active_patron', discordId: 'd1' });
+        patreon = new PatreonEvents({
+            accessToken: server.accessToken,
+            campaignId: server.campaignId,
+            apiBaseUrl: await server.start(),
+            cacheStore: new MemoryCacheStore(),
+            // Backoff of a few milliseconds at most, so only Retry-After makes a test wait
+            retry: { retries: 2, minDelay: 1, maxDelay: 5 }
+        });
+        sim = new Simulator(server, patreon);
+    });
+
+    afterEach(async () => {
+        await patreon.stop();
+        await server.stop();
+    });
+
+    test("server errors are retried until a request succeeds", async () => {
+        server.failNext(503, { times: 2 });
+        await sim.cycle();
+        assert.equal(server.requests.length, 3);
+        assert.equal(patreon.users.get('d1')?.id, 'm1');
+    });
+
+    test("a 429 waits for Retry-After before retrying", async () => {
+        server.failNext(429, { retryAfter: 1 });
+        const startedAt = Date.now();
+        await sim.cycle();
+        assert.ok(Date.now() - startedAt >= 1000);
+        assert.equal(server.requests.length, 2);
+    });
+
+    test("the check fails once the retries are used up", async () => {
+        server.failNext(500, { times: 10 });
+        await assert.rejects(sim.cycle(), /500/);
+        assert.equal(server.requests.length, 3);
+        assert.equal(patreon.getStatus().consecutiveFailures, 1);
+    });
+
+    test("client errors are not retried", async () => {
+        server.failNext(404);
+        await assert.rejects(sim.cycle(), /404/);
+        assert.equal(server.requests.length, 1);
+    });
+});
+
+describe("RateLimiter", () => {
+    test("lets at most limit requests start within an interval", async () => {
+        const limiter = new RateLimiter(2, 200);
+        const starts: number[] = [];
+        await Promise.all([1, 2, 3, 4].map(() => limiter.acquire().then(() => starts.push(Date.now()))));
+
+        assert.ok(starts[1] - starts[0] < 50);
+        assert.ok(starts[2] - starts[0] >= 195);
+        assert.ok(starts[3] - starts[1] >= 195);
+    });
+
+    test("refuses a limit below one", () => {
+        assert.throws(() => new RateLimiter(0), /at least one request/);
+    });
+});
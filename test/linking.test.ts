@@ -0,0 +1,181 @@
+import { describe, test, before, after, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import * as net from "net";
+import { LinkServer } from "../index";
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer().listen(0, '127.0.0.1', () => {
+            const port = (server.address() as net.AddressInfo).port;
+            server.close(() => resolve(port));
+        });
+        server.once('error', reject);
+    });
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * GET a URL without following redirects, the way a browser holding the cookie would send it
+ */
+function get(url: string, cookie?: string): Promise<{ status: number; location?: string; setCookie?: string }> {
+    return new Promise((resolve, reject) => {
+        const req = http.get(url, { headers: cookie ? { 'Cookie': cookie } : {} }, (res) => {
+            res.resume();
+            resolve({ status: res.statusCode!, location: res.headers.location, setCookie: res.headers['set-cookie']?.[0] });
+        });
+        req.on('error', reject);
+    });
+}
+
+describe("account linking", () => {
+    let oauth: http.Server;
+    let oauthUrl: string;
+    // Paths the fake providers were called on
+    const oauthRequests: string[] = [];
+    let linking: LinkServer;
+    const links: string[] = [];
+
+    before(async () => {
+        // Fake Patreon and Discord: each code is good for one user token, each token for one user
+        oauth = http.createServer((req, res) => {
+            oauthRequests.push(req.url!);
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                const code = new URLSearchParams(body).get('code');
+                const token = req.headers.authorization;
+                let answer: object | null = null;
+                if (req.url === '/patreon/token' && code === 'patreon-code') {
+                    answer = { access_token: 'patreon-user-token', token_type: 'Bearer' };
+                } else if (req.url === '/patreon/identity' && token === 'Bearer patreon-user-token') {
+                    answer = { data: { id: 'u1', type: 'user' } };
+                } else if (req.url === '/discord/token' && code === 'discord-code') {
+                    answer = { access_token: 'discord-user-token', token_type: 'Bearer' };
+                } else if (req.url === '/discord/me' && token === 'Bearer discord-user-token') {
+                    answer = { id: 'd1', username: 'ann' };
+                }
+                res.writeHead(answer ? 200 : 400, { 'Content-Type': 'application/json' })
+                    .end(JSON.stringify(answer || { error: 'invalid_grant' }));
+            });
+        });
+        await new Promise<void>(resolve => oauth.listen(0, '127.0.0.1', resolve));
+        oauthUrl = `http://127.0.0.1:${(oauth.address() as net.AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => oauth.close(() => resolve())));
+
+    async function start(stateTtl?: number): Promise<void> {
+        const port = await freePort();
+        linking = new LinkServer({
+            publicUrl: `http://127.0.0.1:${port}`,
+            port,
+            host: '127.0.0.1',
+            stateTtl,
+            patreon: {
+                clientId: 'patreon-client',
+                clientSecret: 'patreon-secret',
+                authorizeUrl: `${oauthUrl}/patreon/authorize`,
+                tokenUrl: `${oauthUrl}/patreon/token`,
+                userUrl: `${oauthUrl}/patreon/identity`
+            },
+            discord: {
+                clientId: 'discord-client',
+                clientSecret: 'discord-secret',
+                authorizeUrl: `${oauthUrl}/discord/authorize`,
+                tokenUrl: `${oauthUrl}/discord/token`,
+                userUrl: `${oauthUrl}/discord/me`
+            }
+        }, async (patreonUserId, discordId) => {
+            links.push(`${patreonUserId}:${discordId}`);
+        });
+        await linking.start();
+    }
+
+    /**
+     * Start a flow like a new browser
+     * @returns The cookie the browser was given and the URL of the first provider's login
+     */
+    async function begin(): Promise<{ cookie: string; authorize: URL }> {
+        const response = await get(linking.startUrl);
+        assert.equal(response.status, 302);
+        return { cookie: response.setCookie!.split(';')[0], authorize: new URL(response.location!) };
+    }
+
+    /**
+     * The provider redirecting the browser back after a login
+     */
+    function callback(authorize: URL, code: string, cookie?: string) {
+        const url = new URL(authorize.searchParams.get('redirect_uri')!);
+        url.searchParams.set('code', code);
+        url.searchParams.set('state', authorize.searchParams.get('state')!);
+        return get(url.toString(), cookie);
+    }
+
+    beforeEach(() => {
+        oauthRequests.length = 0;
+        links.length = 0;
+    });
+
+    afterEach(() => linking.stop());
+
+    test("a patron logging in with Patreon, then Discord, gets the accounts linked", async () => {
+        await start();
+        const response = await get(linking.startUrl);
+        assert.match(response.setCookie!, /^patreon_link=[0-9a-f]+; Path=\/link; Max-Age=600; HttpOnly; SameSite=Lax$/);
+        const cookie = response.setCookie!.split(';')[0];
+        const patreonLogin = new URL(response.location!);
+        assert.equal(patreonLogin.pathname, '/patreon/authorize');
+        assert.equal(patreonLogin.searchParams.get('client_id'), 'patreon-client');
+
+        const toDiscord = await callback(patreonLogin, 'patreon-code', cookie);
+        assert.equal(toDiscord.status, 302);
+        const discordLogin = new URL(toDiscord.location!);
+        assert.equal(discordLogin.pathname, '/discord/authorize');
+        assert.notEqual(discordLogin.searchParams.get('state'), patreonLogin.searchParams.get('state'));
+
+        const linked = await callback(discordLogin, 'discord-code', cookie);
+        assert.equal(linked.status, 200);
+        assert.deepEqual(links, ['u1:d1']);
+        assert.deepEqual(oauthRequests, ['/patreon/token', '/patreon/identity', '/discord/token', '/discord/me']);
+
+        // A state works once
+        assert.equal((await callback(discordLogin, 'discord-code', cookie)).status, 400);
+    });
+
+    test("an unknown or expired state is rejected before any code is exchanged", async () => {
+        await start(20);
+        const { cookie, authorize } = await begin();
+
+        const forged = new URL(authorize);
+        forged.searchParams.set('state', 'made-up');
+        assert.equal((await callback(forged, 'patreon-code', cookie)).status, 400);
+
+        await delay(40);
+        assert.equal((await callback(authorize, 'patreon-code', cookie)).status, 400);
+        assert.deepEqual(oauthRequests, []);
+        assert.deepEqual(links, []);
+    });
+
+    test("a callback from a browser without the flow's cookie is rejected", async () => {
+        await start();
+        // Someone starts a flow and sends the Patreon callback link to a victim
+        const attacker = await begin();
+        const victim = await begin();
+        assert.notEqual(victim.cookie, attacker.cookie);
+        assert.equal((await callback(attacker.authorize, 'patreon-code', victim.cookie)).status, 400);
+        assert.equal((await callback((await begin()).authorize, 'patreon-code')).status, 400);
+
+        // The same at the Discord step
+        const flow = await begin();
+        const toDiscord = await callback(flow.authorize, 'patreon-code', flow.cookie);
+        assert.equal(toDiscord.status, 302);
+        const discordLogin = new URL(toDiscord.location!);
+        assert.equal((await callback(discordLogin, 'discord-code', victim.cookie)).status, 400);
+        assert.deepEqual(links, []);
+        assert.deepEqual(oauthRequests, ['/patreon/token', '/patreon/identity']);
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { DiscordNotifier, MembershipData } from "../index";
+
+describe("DiscordNotifier", () => {
+    let server: http.Server;
+    let url: string;
+    const posts: { path: string; body: any }[] = [];
+
+    before(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                posts.push({ path: req.url || '', body: JSON.parse(body) });
+                res.writeHead(204).end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    test("emails are only posted where a route adds them", async () => {
+        const notifier = new DiscordNotifier({
+            routes: [
+                { events: ['subscribed'], webhookUrls: [`${url}/public`] },
+                { events: ['subscribed'], webhookUrls: [`${url}/staff`], fields: [{ name: 'Email', value: '{email}' }] }
+            ]
+        });
+        const member: MembershipData = {
+            id: 'm1',
+            status: 'active_patron',
+            fullName: 'Ann',
+            email: 'ann@example.com',
+            discordId: 'd1',
+            pledgeAmount: 5,
+            tiers: [{ id: 't1', title: 'Bronze', amount: 5 }]
+        };
+
+        notifier.notify('subscribed', member);
+        await notifier.flush();
+
+        const fields = (path: string) => posts.find(post => post.path === path)!.body.embeds[0].fields;
+        assert.deepEqual(fields('/public').map((field: any) => field.name), ['Tier', 'Pledge']);
+        assert.deepEqual(fields('/staff').map((field: any) => field.value), ['Bronze', '$5.00', 'ann@example.com']);
+        assert.ok(!JSON.stringify(posts.find(post => post.path === '/public')).includes('ann@example.com'));
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { PatreonEvents, FakePatreonServer, Simulator, MemoryCacheStore, MemoryJournal } from "../index";
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe("privacy retention", () => {
+    let server: FakePatreonServer;
+    let patreon: PatreonEvents;
+    let sim: Simulator;
+
+    beforeEach(async () => {
+        server = new FakePatreonServer();
+        server.setMember({ id: 'm1', status: 'active_patron', discordId: 'd1' });
+        server.setMember({ id: 'm2', status: 'active_patron', discordId: 'd2' });
+        patreon = new PatreonEvents({
+            accessToken: server.accessToken,
+            campaignId: server.campaignId,
+            apiBaseUrl: await server.start(),
+            cacheStore: new MemoryCacheStore(),
+            journal: new MemoryJournal(),
+            privacy: { retention: 50 }
+        });
+        sim = new Simulator(server, patreon);
+        await sim.cycle();
+    });
+
+    afterEach(async () => {
+        await patreon.stop();
+        await server.stop();
+    });
+
+    test("former patrons are forgotten once the retention period has passed", async () => {
+        await sim.cancel('m1');
+        await sim.cycle();
+        await delay(60);
+        await sim.cycle();
+
+        assert.equal(patreon.users.getByPatreonId('m1'), null);
+        assert.deepEqual(await patreon.getTimeline('m1'), []);
+        assert.equal(patreon.users.getByPatreonId('m2')?.status, 'active_patron');
+        // Patreon still lists them, but they are not tracked again
+        assert.deepEqual(await sim.cycle(), []);
+        assert.equal(patreon.users.getByPatreonId('m1'), null);
+    });
+
+    test("live grants, and former patrons holding one, are kept", async () => {
+        await patreon.grants.grant('staff', { note: 'staff' });
+        await patreon.grants.grant('d1');
+        await sim.cancel('m1');
+        await sim.cycle();
+        await delay(60);
+        await sim.cycle();
+
+        assert.equal(patreon.grants.get('staff')?.status, 'active_patron');
+        assert.equal((await patreon.getTimeline('staff')).length, 1);
+        assert.equal(patreon.users.getByPatreonId('m1')?.status, 'former_patron');
+
+        // Once the grant is revoked, the former patron and the grant go too
+        await patreon.grants.revoke('d1');
+        await sim.cycle();
+        await delay(60);
+        await sim.cycle();
+        assert.equal(patreon.users.getByPatreonId('m1'), null);
+        assert.deepEqual(await patreon.getTimeline('d1'), []);
+        assert.equal(patreon.grants.get('staff')?.status, 'active_patron');
+    });
+});
+
+describe("privacy with relationships omitted", () => {
+    test("account links and erasure still find the Patreon user", async () => {
+        const server = new FakePatreonServer();
+        server.setMember({ id: 'm1', status: 'active_patron', userId: 'u1', email: 'ann@example.com' });
+        const patreon = new PatreonEvents({
+            accessToken: server.accessToken,
+            campaignId: server.campaignId,
+            apiBaseUrl: await server.start(),
+            cacheStore: new MemoryCacheStore(),
+            privacy: { omit: ['relationships', 'email'] }
+        });
+        try {
+            await new Simulator(server, patreon).cycle();
+            const member = patreon.users.getByPatreonId('m1')!;
+            assert.equal(member.relationships, undefined);
+            assert.equal(member.email, undefined);
+            assert.equal(member.patreonUserId, 'u1');
+
+            const connected: string[] = [];
+            patreon.on('connected', (data) => connected.push(`${data.id}:${data.discordId}`));
+            await patreon.links.link('u1', 'd1');
+            assert.deepEqual(connected, ['m1:d1']);
+            assert.equal(patreon.users.get('d1')?.source, 'oauth-link');
+
+            assert.equal(await patreon.forgetMember('m1'), true);
+            assert.equal(patreon.links.get('u1'), null);
+        } finally {
+            await patreon.stop();
+            await server.stop();
+        }
+    });
+});
+
+describe("privacy with personal fields omitted", () => {
+    test("omitted fields are not requested from Patreon", async () => {
+        const server = new FakePatreonServer();
+        server.setMember({ id: 'm1', status: 'active_patron', email: 'ann@example.com', fullName: 'Ann' });
+        const patreon = new PatreonEvents({
+            accessToken: server.accessToken,
+            campaignId: server.campaignId,
+            apiBaseUrl: await server.start(),
+            cacheStore: new MemoryCacheStore(),
+            privacy: { omit: ['email', 'fullName'] }
+        });
+        try {
+            await new Simulator(server, patreon).cycle();
+            const fields = server.requests[0].query['fields[member]'].split(',');
+            assert.ok(fields.includes('patron_status'));
+            assert.ok(!fields.includes('email'));
+            assert.ok(!fields.includes('full_name'));
+        } finally {
+            await patreon.stop();
+            await server.stop();
+        }
+    });
+});
@@ -0,0 +1,205 @@
+import { describe, test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import { once } from "events";
+import { AddressInfo } from "net";
+import {
+    PatreonEvents, PatreonOptions, FakePatreonServer, Simulator, MemoryCacheStore, DiscordClient, RoleSync, RoleChange, MembershipData
+} from "../index";
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait until a condition holds, failing after a second
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+    for (let waited = 0; !condition(); waited += 10) {
+        if (waited >= 1000) {
+            throw new Error("Timed out waiting for the condition");
+        }
+        await delay(10);
+    }
+}
+
+function describeChanges(changes: RoleChange[]): string[] {
+    return changes.map(change => `${change.action} ${change.discordId} ${change.roleId}`).sort();
+}
+
+describe("Discord role sync", () => {
+    let server: http.Server;
+    let apiBaseUrl: string;
+    // Guild members of guild g1 by Discord ID, with their roles
+    const guild = new Map<string, string[]>();
+    // Rate limits to answer the next requests with
+    const rateLimits: number[] = [];
+    let requests = 0;
+
+    before(async () => {
+        server = http.createServer((req, res) => {
+            requests++;
+            const retryAfter = rateLimits.shift();
+            if (retryAfter !== undefined) {
+                res.writeHead(429, { 'Content-Type': 'application/json' })
+                    .end(JSON.stringify({ message: 'You are being rate limited.', retry_after: retryAfter, global: false }));
+                return;
+            }
+
+            const url = new URL(req.url || '/', 'http://localhost');
+            const role = url.pathname.match(/^\/guilds\/g1\/members\/([^/]+)\/roles\/([^/]+)$/);
+            const member = url.pathname.match(/^\/guilds\/g1\/members\/([^/]+)$/);
+            if (role && guild.has(role[1])) {
+                const roles = guild.get(role[1])!.filter(id => id !== role[2]);
+                guild.set(role[1], req.method === 'PUT' ? [...roles, role[2]] : roles);
+                res.writeHead(204).end();
+            } else if (member && guild.has(member[1])) {
+                res.writeHead(200, { 'Content-Type': 'application/json' })
+                    .end(JSON.stringify({ user: { id: member[1] }, roles: guild.get(member[1]) }));
+            } else if (url.pathname === '/guilds/g1/members') {
+                res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(
+                    Array.from(guild, ([id, roles]) => ({ user: { id }, roles }))));
+            } else {
+                res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ message: 'Unknown Member' }));
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        apiBaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    beforeEach(() => {
+        guild.clear();
+        rateLimits.length = 0;
+        requests = 0;
+    });
+
+    /**
+     * Run a test against an instance syncing the "patron" role for m1, an active patron with Discord account d1
+     */
+    async function withWatcher(options: Partial<PatreonOptions>,
+        run: (patreon: PatreonEvents, sim: Simulator, patreonServer: FakePatreonServer) => Promise<void>): Promise<void> {
+        const patreonServer = new FakePatreonServer();
+        patreonServer.setMember({ id: 'm1', status: 'active_patron', discordId: 'd1' });
+        const patreon = new PatreonEvents({
+            accessToken: patreonServer.accessToken,
+            campaignId: patreonServer.campaignId,
+            apiBaseUrl: await patreonServer.start(),
+            cacheStore: new MemoryCacheStore(),
+            checkInterval: 3600000,
+            roleSync: { botToken: 'bot', guildId: 'g1', apiBaseUrl, rules: [{ roleId: 'patron' }] },
+            ...options
+        });
+        try {
+            await run(patreon, new Simulator(patreonServer, patreon), patreonServer);
+        } finally {
+            await patreon.stop();
+            await patreonServer.stop();
+        }
+    }
+
+    test("a rate-limited request is retried after retry_after", async () => {
+        guild.set('u1', []);
+        rateLimits.push(0.1);
+        const client = new DiscordClient({ botToken: 'bot', apiBaseUrl });
+
+        const startedAt = Date.now();
+        await client.addMemberRole('g1', 'u1', 'r1');
+        assert.ok(Date.now() - startedAt >= 90);
+        assert.equal(requests, 2);
+        assert.deepEqual(guild.get('u1'), ['r1']);
+    });
+
+    test("a request still rate limited after maxRetries fails", async () => {
+        guild.set('u1', []);
+        rateLimits.push(0.01, 0.01, 0.01);
+        const client = new DiscordClient({ botToken: 'bot', apiBaseUrl, maxRetries: 1 });
+
+        await assert.rejects(client.addMemberRole('g1', 'u1', 'r1'), /429/);
+        assert.equal(requests, 2);
+        assert.deepEqual(guild.get('u1'), []);
+    });
+
+    test("reconcile plans adds and removes in a dry run and applies them otherwise", async () => {
+        guild.set('u1', ['other']); // Active with Gold: gets both roles
+        guild.set('u2', ['patron', 'gold', 'other']); // Canceled: loses both
+        guild.set('u3', ['patron']); // Active with Bronze: already right
+        guild.set('u9', ['patron', 'other']); // Not on the roster: loses the managed role with removeUnknown
+        const roster: MembershipData[] = [
+            { id: 'm1', status: 'active_patron', discordId: 'u1', tiers: [{ id: 'gold-tier' }] },
+            { id: 'm2', status: 'former_patron', discordId: 'u2', tiers: [] },
+            { id: 'm3', status: 'active_patron', discordId: 'u3', tiers: [{ id: 'bronze-tier' }] },
+            { id: 'm4', status: 'active_patron', discordId: 'u4', tiers: [] } // Not in the guild
+        ];
+        const roles = new RoleSync({
+            botToken: 'bot',
+            guildId: 'g1',
+            apiBaseUrl,
+            removeUnknown: true,
+            rules: [{ roleId: 'patron' }, { roleId: 'gold', tierIds: ['gold-tier'] }]
+        });
+        const expected = ['add u1 gold', 'add u1 patron', 'remove u2 gold', 'remove u2 patron', 'remove u9 patron'];
+
+        const plan = await roles.reconcile(roster, { dryRun: true });
+        assert.equal(plan.dryRun, true);
+        assert.deepEqual(describeChanges(plan.changes), expected);
+        assert.deepEqual(guild.get('u1'), ['other']);
+
+        const applied = await roles.reconcile(roster);
+        assert.deepEqual(describeChanges(applied.changes), expected);
+        assert.deepEqual(applied.failed, []);
+        assert.deepEqual(Object.fromEntries(guild), {
+            u1: ['other', 'patron', 'gold'],
+            u2: ['other'],
+            u3: ['patron'],
+            u9: ['other']
+        });
+    });
+
+    test("roles keep syncing after stop() and a new initialize()", async () => {
+        guild.set('d1', []);
+        await withWatcher({}, async (patreon, sim, patreonServer) => {
+            let ready = once(patreon, 'ready');
+            patreon.initialize();
+            await ready;
+            await waitFor(() => guild.get('d1')!.includes('patron'));
+
+            await patreon.stop();
+            ready = once(patreon, 'ready');
+            patreon.initialize();
+            await ready;
+
+            patreonServer.updateMember('m1', { status: 'former_patron' });
+            await patreon.checkForUpdates();
+            await waitFor(() => guild.get('d1')!.length === 0);
+        });
+    });
+
+    test("syncRoles leaves the roles of a declined patron in their grace period", async () => {
+        guild.set('d1', ['patron']);
+        await withWatcher({ declineGracePeriod: 3600000 }, async (patreon, sim) => {
+            await sim.cycle();
+            await sim.decline('m1');
+            assert.ok(patreon.users.get('d1')?.gracePeriodEndsAt);
+
+            assert.deepEqual((await patreon.syncRoles({ dryRun: true })).changes, []);
+            await patreon.syncRoles();
+            assert.deepEqual(guild.get('d1'), ['patron']);
+        });
+    });
+
+    test("syncRoles leaves the roles of a canceled patron who is still paid through", async () => {
+        guild.set('d1', ['patron']);
+        await withWatcher({ scheduleExpiry: true }, async (patreon, sim, patreonServer) => {
+            patreonServer.updateMember('m1', { nextChargeDate: new Date(Date.now() + 86400000).toISOString() });
+            await sim.cycle();
+            await sim.cancel('m1');
+            assert.ok(patreon.users.get('d1')?.entitledUntil);
+
+            assert.deepEqual((await patreon.syncRoles({ dryRun: true })).changes, []);
+            await patreon.syncRoles();
+            assert.deepEqual(guild.get('d1'), ['patron']);
+        });
+    });
+});
@@ -0,0 +1,217 @@
+import { describe, test, before, after, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as http from "http";
+import * as net from "net";
+import { once } from "events";
+import { PatreonEvents, FakePatreonServer, Simulator, MemoryCacheStore } from "../index";
+import { WebhookServer, MAX_WEBHOOK_BODY_SIZE } from "../src/webhook";
+
+const SECRET = 'webhook-secret';
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer().listen(0, '127.0.0.1', () => {
+            const port = (server.address() as net.AddressInfo).port;
+            server.close(() => resolve(port));
+        });
+        server.once('error', reject);
+    });
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * POST a body to the webhook route; resolves the response status
+ */
+function send(port: number, body: string, headers: Record<string, string>): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const req = http.request({ host: '127.0.0.1', port, path: '/patreon/webhook', method: 'POST', headers }, (res) => {
+            res.resume();
+            resolve(res.statusCode!);
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+/**
+ * POST a body in chunks, optionally announcing its length; resolves the response status
+ */
+function post(port: number, size: number, announceLength: boolean): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const req = http.request({
+            host: '127.0.0.1',
+            port,
+            path: '/patreon/webhook',
+            method: 'POST',
+            headers: announceLength ? { 'Content-Length': size } : {}
+        }, (res) => {
+            res.resume();
+            resolve(res.statusCode!);
+        });
+        // The server may close the connection before the whole body is sent
+        req.on('error', (error: NodeJS.ErrnoException) => {
+            if (error.code !== 'ECONNRESET' && error.code !== 'EPIPE') reject(error);
+        });
+        const chunk = Buffer.alloc(64 * 1024, 'a');
+        for (let sent = 0; sent < size; sent += chunk.length) {
+            req.write(chunk.subarray(0, Math.min(chunk.length, size - sent)));
+        }
+        req.end();
+    });
+}
+
+/**
+ * A members:update delivery for a member of the fake campaign, signed unless a signature is given
+ */
+function delivery(id: string, status: string, discordId: string, signature?: string): { body: string; headers: Record<string, string> } {
+    const body = JSON.stringify({
+        data: {
+            id,
+            type: 'member',
+            attributes: { patron_status: status },
+            relationships: {
+                user: { data: { id: `user-${id}`, type: 'user' } },
+                currently_entitled_tiers: { data: [] }
+            }
+        },
+        included: [{ id: `user-${id}`, type: 'user', attributes: { social_connections: { discord: { user_id: discordId } } } }]
+    });
+    return {
+        body,
+        headers: {
+            'X-Patreon-Event': 'members:update',
+            'X-Patreon-Signature': signature ?? crypto.createHmac('md5', SECRET).update(body).digest('hex')
+        }
+    };
+}
+
+describe("WebhookServer", () => {
+    let port: number;
+    let server: WebhookServer;
+    const received: number[] = [];
+
+    before(async () => {
+        port = await freePort();
+        server = new WebhookServer({ port, host: '127.0.0.1', path: '/patreon/webhook' }, (rawBody) => {
+            received.push(rawBody.length);
+            return 'invalid_signature';
+        });
+        await server.start();
+    });
+
+    after(() => server.stop());
+
+    test("a body within the limit reaches the handler", async () => {
+        assert.equal(await post(port, 1024, true), 401);
+        assert.deepEqual(received, [1024]);
+    });
+
+    test("an oversized body is refused with 413, announced or not", async () => {
+        assert.equal(await post(port, MAX_WEBHOOK_BODY_SIZE + 1, true), 413);
+        assert.equal(await post(port, 2 * MAX_WEBHOOK_BODY_SIZE, false), 413);
+        assert.deepEqual(received, [1024]);
+    });
+});
+
+describe("handleWebhook", () => {
+    let server: FakePatreonServer;
+    let patreon: PatreonEvents;
+    let sim: Simulator;
+    const events: string[] = [];
+
+    beforeEach(async () => {
+        server = new FakePatreonServer();
+        server.setMember({ id: 'm1', status: 'active_patron', discordId: 'd1' });
+        server.setMember({ id: 'm2', status: 'active_patron', discordId: 'd2' });
+        patreon = new PatreonEvents({
+            accessToken: server.accessToken,
+            campaignId: server.campaignId,
+            apiBaseUrl: await server.start(),
+            cacheStore: new MemoryCacheStore(),
+            webhookSecret: SECRET
+        });
+        sim = new Simulator(server, patreon);
+        await sim.cycle();
+
+        events.length = 0;
+        for (const event of ['canceled', 'reactivated'] as const) {
+            patreon.on(event, (member) => events.push(`${event}:${member.id}`));
+        }
+    });
+
+    afterEach(async () => {
+        await patreon.stop();
+        await server.stop();
+    });
+
+    test("a delivery with a bad signature changes nothing", async () => {
+        const { body, headers } = delivery('m1', 'former_patron', 'd1', '0'.repeat(32));
+        assert.equal(patreon.handleWebhook(body, headers), 'invalid_signature');
+        await delay(20);
+        assert.deepEqual(events, []);
+        assert.equal(patreon.users.getByPatreonId('m1')?.status, 'active_patron');
+    });
+
+    test("a signed delivery goes through the diff and emits", async () => {
+        const { body, headers } = delivery('m1', 'former_patron', 'd1');
+        const canceled = once(patreon, 'canceled');
+        assert.equal(patreon.handleWebhook(body, headers), 'accepted');
+        await canceled;
+        assert.deepEqual(events, ['canceled:m1']);
+        assert.equal(patreon.users.get('d1')?.status, 'former_patron');
+    });
+
+    test("a check fetching while a delivery arrives doesn't undo it", async () => {
+        // The roster the check fetches still lists m1 as active
+        const check = patreon.checkForUpdates();
+        const { body, headers } = delivery('m1', 'former_patron', 'd1');
+        assert.equal(patreon.handleWebhook(body, headers), 'accepted');
+        await check;
+
+        assert.deepEqual(events, ['canceled:m1']);
+        assert.equal(patreon.users.getByPatreonId('m1')?.status, 'former_patron');
+
+        // Once Patreon lists the cancellation too, checks stay quiet
+        server.updateMember('m1', { status: 'former_patron' });
+        assert.deepEqual(await sim.cycle(), []);
+    });
+});
+
+describe("built-in webhook server", () => {
+    test("answers 401 to a bad signature and 200 to a signed delivery", async () => {
+        const server = new FakePatreonServer();
+        server.setMember({ id: 'm1', status: 'active_patron', discordId: 'd1' });
+        const port = await freePort();
+        const patreon = new PatreonEvents({
+            accessToken: server.accessToken,
+            campaignId: server.campaignId,
+            apiBaseUrl: await server.start(),
+            cacheStore: new MemoryCacheStore(),
+            mode: 'webhook',
+            webhookSecret: SECRET,
+            webhookPort: port,
+            webhookHost: '127.0.0.1'
+        });
+        try {
+            const ready = once(patreon, 'ready');
+            patreon.initialize();
+            await ready;
+
+            const forged = delivery('m1', 'former_patron', 'd1', '0'.repeat(32));
+            assert.equal(await send(port, forged.body, forged.headers), 401);
+
+            const signed = delivery('m1', 'former_patron', 'd1');
+            const canceled = once(patreon, 'canceled');
+            assert.equal(await send(port, signed.body, signed.headers), 200);
+            const [member] = await canceled;
+            assert.equal(member.id, 'm1');
+        } finally {
+            await patreon.stop();
+            await server.stop();
+        }
+    });
+});